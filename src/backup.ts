@@ -0,0 +1,255 @@
+import type { DBLogger, StatusResult } from './types'
+import type { Promisable } from '@subframe7536/type-utils'
+import type { Kysely, Transaction } from 'kysely'
+
+import { getChecksums, removeChecksums, SCHEMA_CHECKSUM_NAME } from './checksum'
+import { foreignKeys } from './pragma'
+import { SCHEMA_SNAPSHOT_TABLE } from './schema/snapshot'
+import { executeSQL } from './utils'
+
+/**
+ * Prefix of backup tables, excluded when parsing exist schema
+ *
+ * Backup info is stored in `__kysely_backup`,
+ * backup data is stored in `__kysely_backup_${id}_${table}`
+ */
+export const BACKUP_TABLE_PREFIX = '__kysely_backup'
+
+const RESTORE_SCHEMA_NAME = '__kysely_restore'
+
+export type BackupOptions = {
+  /**
+   * Backup target, `'table'` by default
+   *
+   * - `'table'`: copy tables into `__kysely_backup_${id}_${table}` in current database
+   * - function: return file path, backup whole database by `VACUUM INTO`
+   */
+  target?: 'table' | ((id: number) => string)
+  /**
+   * Max count of backups to keep, `1` by default
+   */
+  keep?: number
+  /**
+   * Remove outdated backup file, only works with file target
+   * @param path backup file path
+   */
+  removeFile?: (path: string) => Promisable<void>
+}
+
+export type BackupInfo = {
+  id: number
+  /**
+   * Backup file path, `null` if backup into tables
+   */
+  path: string | null
+  /**
+   * Backup table names, empty if backup whole database into file,
+   * schema snapshot table is included if exists
+   */
+  tables: string[]
+  createAt: string
+}
+
+type MasterData = {
+  type: 'table' | 'index' | 'trigger'
+  name: string
+  table: string
+  sql: string
+}
+
+type BackupRow = Omit<BackupInfo, 'tables'> & {
+  tables: string | string[]
+  schema: string | MasterData[]
+}
+
+// JSON columns may already be deserialized by serialize plugin
+function parseJSON<T>(value: T | string): T {
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
+
+function parseBackupRow({ schema, tables, ...info }: BackupRow): BackupInfo {
+  return { ...info, tables: parseJSON(tables) }
+}
+
+async function getMasterData(
+  db: Kysely<any> | Transaction<any>,
+  schemaName = 'main',
+): Promise<MasterData[]> {
+  const { rows } = await executeSQL<MasterData>(
+    db,
+    `SELECT "type", "name", "tbl_name" AS "table", "sql" FROM "${schemaName}"."sqlite_master" WHERE "type" IN ('table', 'index', 'trigger') AND "sql" IS NOT NULL AND "tbl_name" NOT LIKE 'sqlite_%' AND "tbl_name" NOT LIKE '${BACKUP_TABLE_PREFIX}%' ORDER BY "type" = 'table' DESC`,
+  )
+  return rows
+}
+
+/**
+ * Get backup list, latest first
+ */
+export async function listBackups(db: Kysely<any>): Promise<BackupInfo[]> {
+  const { rows } = await executeSQL<{ name: string }>(
+    db,
+    `SELECT "name" FROM "sqlite_master" WHERE "type" = 'table' AND "name" = '${BACKUP_TABLE_PREFIX}'`,
+  )
+  if (!rows.length) {
+    return []
+  }
+  return (await executeSQL<BackupRow>(db, `SELECT * FROM "${BACKUP_TABLE_PREFIX}" ORDER BY "id" DESC`))
+    .rows
+    .map(parseBackupRow)
+}
+
+/**
+ * Backup tables or whole database, and remove outdated backups
+ * @param db kysely instance
+ * @param tables table names to backup, only works with table target
+ * @param options backup options
+ * @param logger db logger
+ */
+export async function createBackup(
+  db: Kysely<any>,
+  tables: string[],
+  options: BackupOptions = {},
+  logger?: DBLogger,
+): Promise<BackupInfo> {
+  const { target = 'table', keep = 1, removeFile } = options
+
+  await executeSQL(
+    db,
+    `CREATE TABLE IF NOT EXISTS "${BACKUP_TABLE_PREFIX}" ("id" INTEGER PRIMARY KEY, "path" TEXT, "tables" TEXT NOT NULL, "schema" TEXT NOT NULL, "createAt" TEXT DEFAULT CURRENT_TIMESTAMP)`,
+  )
+
+  const info = await db.transaction().execute(async (trx) => {
+    const isTableTarget = target === 'table'
+    const masterData = isTableTarget ? await getMasterData(trx) : []
+    const backupTables = isTableTarget
+      ? [...tables, ...masterData.some(({ name }) => name === SCHEMA_SNAPSHOT_TABLE) ? [SCHEMA_SNAPSHOT_TABLE] : []]
+      : []
+    const schema = masterData.filter(({ table }) => backupTables.includes(table))
+    const { insertId } = await executeSQL(
+      trx,
+      `INSERT INTO "${BACKUP_TABLE_PREFIX}" ("tables", "schema") VALUES (?, ?)`,
+      [JSON.stringify(backupTables), JSON.stringify(schema)],
+    )
+    const id = Number(insertId)
+    if (isTableTarget) {
+      for (const table of backupTables) {
+        await executeSQL(trx, `CREATE TABLE "${BACKUP_TABLE_PREFIX}_${id}_${table}" AS SELECT * FROM "${table}"`)
+      }
+    } else {
+      await executeSQL(trx, `UPDATE "${BACKUP_TABLE_PREFIX}" SET "path" = ? WHERE "id" = ?`, [target(id), id])
+    }
+    return (await executeSQL<BackupRow>(trx, `SELECT * FROM "${BACKUP_TABLE_PREFIX}" WHERE "id" = ?`, [id])).rows[0]
+  })
+
+  // `VACUUM` cannot run inside transaction
+  if (info.path) {
+    await executeSQL(db, `VACUUM INTO '${info.path.replace(/'/g, '\'\'')}'`)
+  }
+  logger?.info(`Backup ${info.id} created`)
+
+  for (const { id, path, tables: backupTables } of (await listBackups(db)).slice(Math.max(keep, 1))) {
+    for (const table of backupTables) {
+      await executeSQL(db, `DROP TABLE IF EXISTS "${BACKUP_TABLE_PREFIX}_${id}_${table}"`)
+    }
+    if (path) {
+      await removeFile?.(path)
+    }
+    await executeSQL(db, `DELETE FROM "${BACKUP_TABLE_PREFIX}" WHERE "id" = ?`, [id])
+    logger?.debug(`Backup ${id} removed`)
+  }
+
+  return parseBackupRow(info)
+}
+
+async function restoreTables(
+  trx: Transaction<any>,
+  masterData: MasterData[],
+  getSourceTable: (table: string) => string,
+): Promise<void> {
+  // tables first, then indexes and triggers
+  for (const { type, name, sql } of masterData) {
+    await executeSQL(trx, sql)
+    if (type !== 'table') {
+      continue
+    }
+    // generated columns cannot be inserted
+    const columns = (await executeSQL<{ name: string }>(
+      trx,
+      `SELECT "name" FROM pragma_table_xinfo('${name}') WHERE "hidden" = 0`,
+    )).rows.map(col => `"${col.name}"`).join(',')
+    await executeSQL(trx, `INSERT INTO "${name}" (${columns}) SELECT ${columns} FROM ${getSourceTable(name)}`)
+  }
+}
+
+/**
+ * Restore backup created by {@link createBackup}
+ *
+ * - table target: restore backup tables, tables created after backup are kept
+ * - file target: restore whole database
+ * @param db kysely instance
+ * @param id backup id, latest backup by default
+ * @param logger db logger
+ */
+export async function restoreBackup(
+  db: Kysely<any>,
+  id?: number,
+  logger?: DBLogger,
+): Promise<StatusResult> {
+  const backupRow = (await listBackups(db)).find(info => id === undefined || info.id === id)
+  if (!backupRow) {
+    const error = new Error(id === undefined ? 'No backup found' : `Backup ${id} not found`)
+    logger?.error('Restore failed', error)
+    return { ready: false, error }
+  }
+  const { rows: [{ schema }] } = await executeSQL<BackupRow>(
+    db,
+    `SELECT "schema" FROM "${BACKUP_TABLE_PREFIX}" WHERE "id" = ?`,
+    [backupRow.id],
+  )
+  const { path, tables } = backupRow
+
+  const restoreForeignKeys = await foreignKeys(db)
+  if (restoreForeignKeys) {
+    await foreignKeys(db, false)
+  }
+  let isAttached = false
+  try {
+    if (path) {
+      // `ATTACH` cannot run inside transaction
+      await executeSQL(db, `ATTACH DATABASE '${path.replace(/'/g, '\'\'')}' AS "${RESTORE_SCHEMA_NAME}"`)
+      isAttached = true
+    }
+    await db.transaction().execute(async (trx) => {
+      if (path) {
+        for (const { type, name } of await getMasterData(trx)) {
+          if (type === 'table') {
+            await executeSQL(trx, `DROP TABLE IF EXISTS "${name}"`)
+          }
+        }
+        await restoreTables(trx, await getMasterData(trx, RESTORE_SCHEMA_NAME), table => `"${RESTORE_SCHEMA_NAME}"."${table}"`)
+      } else {
+        // schema snapshot created after backup is outdated
+        for (const table of [...tables, SCHEMA_SNAPSHOT_TABLE]) {
+          await executeSQL(trx, `DROP TABLE IF EXISTS "${table}"`)
+        }
+        await restoreTables(trx, parseJSON(schema), table => `"${BACKUP_TABLE_PREFIX}_${backupRow.id}_${table}"`)
+        // restored tables are not synced by schema, so skip drift check until next sync
+        if ((await getChecksums(trx, SCHEMA_CHECKSUM_NAME))[SCHEMA_CHECKSUM_NAME]) {
+          await removeChecksums(trx, [SCHEMA_CHECKSUM_NAME])
+        }
+      }
+    })
+    logger?.info(`Backup ${backupRow.id} restored`)
+    return { ready: true }
+  } catch (error) {
+    logger?.error('Restore failed', error instanceof Error ? error : new Error(String(error)))
+    return { ready: false, error }
+  } finally {
+    if (isAttached) {
+      await executeSQL(db, `DETACH DATABASE "${RESTORE_SCHEMA_NAME}"`)
+    }
+    if (restoreForeignKeys) {
+      await foreignKeys(db, true)
+    }
+  }
+}
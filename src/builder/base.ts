@@ -1,7 +1,9 @@
 import type { LoggerOptions } from '../logger'
+import type { ParamFn } from '../precompile'
 import type { DBLogger, SchemaUpdater, StatusResult } from '../types'
 import type { Promisable } from '@subframe7536/type-utils'
 import type {
+  Compilable,
   CompiledQuery,
   ControlledTransaction,
   Dialect,
@@ -15,8 +17,10 @@ import type {
 import { Kysely } from 'kysely'
 import { BaseSerializePlugin } from 'kysely-plugin-serialize'
 
+import { restoreBackup } from '../backup'
 import { createKyselyLogger } from '../logger'
 import { checkIntegrity as runCheckIntegrity } from '../pragma'
+import { compileTemplate, fillTemplate } from '../precompile'
 import { defaultDeserializer, defaultSerializer } from '../serialize'
 import { IntegrityError } from '../types'
 import { executeSQL } from '../utils'
@@ -43,6 +47,30 @@ export interface SqliteBuilderOptions {
    * DB logger
    */
   logger?: DBLogger
+  /**
+   * Max count of queries in prepared registry, see {@link BaseSqliteBuilder.prepare},
+   * least recently used query is evicted
+   * @default 100
+   */
+  preparedCacheSize?: number
+}
+
+/**
+ * Query prepared by {@link BaseSqliteBuilder.prepare}
+ */
+export type PreparedQuery<T extends Record<string, any>, O> = {
+  /**
+   * Fill params into compiled query
+   */
+  compile: (param: T) => CompiledQuery<O>
+  /**
+   * Execute and return all rows
+   */
+  run: (param: T) => Promise<O[]>
+  /**
+   * Execute and return first row
+   */
+  takeFirst: (param: T) => Promise<O | undefined>
 }
 
 interface TransactionOptions<T> {
@@ -69,6 +97,8 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
   private ky: Kysely<DB>
   private trx?: ControlledTransaction<DB>
   private log?: DBLogger
+  private prepared = new Map<string, PreparedQuery<any, any>>()
+  private preparedCacheSize: number
 
   /**
    * Current kysely / transaction instance
@@ -83,8 +113,10 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
       logger,
       onQuery,
       plugins = [],
+      preparedCacheSize = 100,
     } = options
     this.log = logger
+    this.preparedCacheSize = preparedCacheSize
     plugins.push(new BaseSerializePlugin(defaultSerializer, defaultDeserializer, []))
 
     let log
@@ -102,7 +134,8 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
 
   /**
    * sync db schema
-   * @param updater sync table function, built-in: {@link useSchema}, {@link useMigrator}
+   * @param updater sync table function, built-in: {@link useSchema}, {@link useMigrator},
+   * if it has `verify` (e.g. `checkDrift` option is set), database is verified before syncing
    * @param checkIntegrity whether to check integrity
    * @example
    * import { useSchema } from 'kysely-sqlite-builder/schema'
@@ -121,6 +154,12 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
         this.log?.error('Integrity check fail')
         return { ready: false, error: new IntegrityError() }
       }
+      if (updater.verify) {
+        const verifyResult = await updater.verify(this.ky, this.log)
+        if (!verifyResult.ready) {
+          return verifyResult
+        }
+      }
       const result = await updater(this.ky, this.log)
       this.log?.info('Sync completed')
       return result
@@ -133,6 +172,14 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
     }
   }
 
+  /**
+   * Restore backup created by `useSchema(schema, { backup })`
+   * @param id backup id, latest backup by default
+   */
+  public async restoreBackup(id?: number): Promise<StatusResult> {
+    return await restoreBackup(this.ky, id, this.log)
+  }
+
   private logError(e: unknown, errorMsg?: string): void {
     if (errorMsg) {
       this.log?.error(errorMsg, e instanceof Error ? e : new Error(String(e)))
@@ -196,6 +243,47 @@ export class BaseSqliteBuilder<DB extends Record<string, any>> {
     }
   }
 
+  /**
+   * Prepare query in builder-level registry, compile once and execute by `db.execute(compiled)`,
+   * hot paths skip both query builder and compilation
+   *
+   * Queries are keyed by `name`, registry size is limited by `preparedCacheSize` option
+   * @param name registry key, if exists, query builder is not called
+   * @example
+   * const findUser = db.prepare<{ id: number }>('findUser')
+   *   .build(param => db.selectFrom('user').selectAll().where('id', '=', param('id')))
+   * await findUser.run({ id: 1 })
+   * // query builder is skipped, returns the same prepared query
+   * await db.prepare<{ id: number }>('findUser')
+   *   .build(param => db.selectFrom('user').selectAll().where('id', '=', param('id')))
+   *   .takeFirst({ id: 1 })
+   */
+  public prepare<T extends Record<string, any>>(name: string): {
+    build: <O>(queryBuilder: (param: ParamFn<T>) => Compilable<O>) => PreparedQuery<T, O>
+  } {
+    return {
+      build: <O>(queryBuilder: (param: ParamFn<T>) => Compilable<O>) => {
+        let prepared = this.prepared.get(name)
+        if (!prepared) {
+          const template = compileTemplate(queryBuilder)
+          const compile = (param: T): CompiledQuery<O> => fillTemplate(template, param)
+          prepared = {
+            compile,
+            run: async param => (await this.execute(compile(param))).rows,
+            takeFirst: async param => (await this.execute(compile(param))).rows[0],
+          }
+        }
+        // move to the end as most recently used
+        this.prepared.delete(name)
+        this.prepared.set(name, prepared)
+        if (this.prepared.size > this.preparedCacheSize) {
+          this.prepared.delete(this.prepared.keys().next().value!)
+        }
+        return prepared
+      },
+    }
+  }
+
   /**
    * Execute raw sql
    */
@@ -1,54 +1,131 @@
+import type { InferDatabase, InferSoftDeleteTable, Schema, SoftDeleteMode } from '../schema/types'
+import type { SoftDeleteColumn } from '../soft-delete-plugin'
 import type { SqliteBuilderOptions } from './base'
-import type { Kysely, WhereInterface } from 'kysely'
+import type {
+  DeleteQueryBuilder,
+  DeleteResult,
+  Kysely,
+  OperationNodeSource,
+  UpdateQueryBuilder,
+  UpdateResult,
+  WhereInterface,
+} from 'kysely'
 
-import { DeleteResult } from 'kysely'
+import { AliasNode, SelectQueryNode, sql, TableNode, UpdateQueryNode } from 'kysely'
 
+import { parseSoftDeleteColumns, SoftDeletePlugin } from '../soft-delete-plugin'
 import { BaseSqliteBuilder } from './base'
 
-interface SoftDeleteSqliteBuilderOptions extends SqliteBuilderOptions {
+/**
+ * Query entries of {@link SoftDeleteSqliteBuilder} in specific soft delete scope
+ */
+export type SoftDeleteScope<DB> = Pick<Kysely<DB>, 'selectFrom' | 'updateTable'>
+
+function whereExist(qb: WhereInterface<any, any>, { name, mode }: SoftDeleteColumn): any {
+  return mode === 'timestamp' ? qb.where(name, 'is', null) : qb.where(name, '=', 0)
+}
+
+function whereDeleted(qb: WhereInterface<any, any>, { name, mode }: SoftDeleteColumn): any {
+  return mode === 'timestamp' ? qb.where(name, 'is not', null) : qb.where(name, '=', 1)
+}
+
+/**
+ * Get root `from` / `update` table name of query
+ */
+function getRootTable(qb: OperationNodeSource): string {
+  const node = qb.toOperationNode()
+  const table = SelectQueryNode.is(node)
+    ? node.from?.froms[0]
+    : UpdateQueryNode.is(node) ? node.table : undefined
+  const tableNode = table && AliasNode.is(table) ? table.node : table
+  return tableNode && TableNode.is(tableNode) ? tableNode.table.identifier.name : ''
+}
+
+/**
+ * Soft delete query of soft delete table, real delete query of other tables
+ */
+export type SoftDeleteFrom<DB, SoftDeleteTable extends keyof DB & string> = <TB extends keyof DB & string>(
+  table: TB,
+) => TB extends SoftDeleteTable
+  ? UpdateQueryBuilder<DB, TB, TB, UpdateResult>
+  : DeleteQueryBuilder<DB, TB, DeleteResult>
+
+export interface SoftDeleteSqliteBuilderOptions extends SqliteBuilderOptions {
   /**
-   * Delete column name
+   * Delete column name, applied to every table if `schema` is not set
    * @default 'isDeleted'
    */
   deleteColumnName?: string
+  /**
+   * Soft delete mode of `deleteColumnName`, see {@link SoftDeleteMode}
+   * @default 'flag'
+   */
+  softDeleteMode?: SoftDeleteMode
+  /**
+   * Table schema, only tables with `softDelete` option are soft deleted, using each table's column name
+   */
+  schema?: Schema
 }
 
-/**
- * {@link SqliteBuilder} with soft delete
- */
-export class SoftDeleteSqliteBuilder<DB extends Record<string, any>> extends BaseSqliteBuilder<DB> {
-  private col: string
+class SoftDeleteSqliteBuilderImpl<
+  DB extends Record<string, any>,
+  SoftDeleteTable extends keyof DB & string = keyof DB & string,
+> extends BaseSqliteBuilder<DB> {
+  private getColumn: (table: string) => SoftDeleteColumn | undefined
+  private plugin: SoftDeletePlugin
   /**
-   * Filters rows that are not soft deleted
+   * Filters rows that are not soft deleted, using `deleteColumnName` and `softDeleteMode`,
+   * or soft delete column of root table if `schema` is set
    */
   public whereExists: <T>(qb: T) => T
   /**
-   * Filters rows that are soft deleted
+   * Filters rows that are soft deleted, using `deleteColumnName` and `softDeleteMode`,
+   * or soft delete column of root table if `schema` is set
    */
   public whereDeleted: <T>(qb: T) => T
   constructor(options: SoftDeleteSqliteBuilderOptions) {
     super(options)
-    const delCol = options.deleteColumnName || 'isDeleted'
-    this.col = delCol
-    this.whereExists = <T>(qb: T) => (qb as WhereInterface<any, any>).where(delCol, '=', 0) as T
-    this.whereDeleted = <T>(qb: T) => (qb as WhereInterface<any, any>).where(delCol, '=', 1) as T
+    const { deleteColumnName = 'isDeleted', softDeleteMode = 'flag', schema } = options
+    const delCol: SoftDeleteColumn = { name: deleteColumnName, mode: softDeleteMode }
+    const columns = schema && parseSoftDeleteColumns(schema)
+    // support alias, e.g. `'user as u'`
+    this.getColumn = columns ? table => columns[table.split(' ')[0]] : () => delCol
+    this.plugin = new SoftDeletePlugin(schema || deleteColumnName, softDeleteMode)
+    // tables without soft delete column have no soft deleted rows, same as `onlyDeleted`
+    this.whereExists = <T>(qb: T) => {
+      const col = this.getColumn(getRootTable(qb as OperationNodeSource))
+      return col ? whereExist(qb as WhereInterface<any, any>, col) : qb
+    }
+    this.whereDeleted = <T>(qb: T) => {
+      const col = this.getColumn(getRootTable(qb as OperationNodeSource))
+      return col ? whereDeleted(qb as WhereInterface<any, any>, col) : (qb as WhereInterface<any, any>).where(sql<boolean>`0`)
+    }
   }
 
   public insertInto: Kysely<DB>['insertInto'] = tb => this.kysely.insertInto(tb)
   public replaceInto: Kysely<DB>['replaceInto'] = tb => this.kysely.replaceInto(tb)
+  /**
+   * Creates a select query, soft deleted rows are filtered by {@link SoftDeletePlugin},
+   * only root table is filtered if `schema` is not set
+   */
   public selectFrom: Kysely<DB>['selectFrom'] = (tb: any) =>
-    (this.kysely.selectFrom(tb) as any).where(this.col, '=', 0)
+    (this.kysely.selectFrom(tb) as any).withPlugin(this.plugin)
 
+  /**
+   * Creates an update query, soft deleted rows are not updated,
+   * see {@link SoftDeletePlugin}
+   */
   public updateTable: Kysely<DB>['updateTable'] = (tb: any) =>
-    (this.kysely.updateTable(tb) as any).where(this.col, '=', 0)
+    (this.kysely.updateTable(tb) as any).withPlugin(this.plugin)
 
   /**
-   * Creates a soft delete query.
+   * Creates a soft delete query, or real delete query if table has no soft delete column.
    *
    * See the {@link DeleteQueryBuilder.where} method for examples on how to specify
    * a where clause for the delete operation.
    *
-   * The return value of the query is an instance of {@link DeleteResult}.
+   * The return value of the query is an instance of {@link UpdateResult}
+   * or {@link DeleteResult}.
    *
    * ### Examples
    *
@@ -66,8 +143,146 @@ export class SoftDeleteSqliteBuilder<DB extends Record<string, any>> extends Bas
    * The generated SQL (SQLite):
    *
    * ```sql
-   * update "person" set "isDeleted" = 1 where "person"."id" = $1
+   * update "person" set "isDeleted" = 1 where "isDeleted" = 0 and "person"."id" = $1
+   * -- or in `'timestamp'` mode
+   * update "person" set "deletedAt" = CURRENT_TIMESTAMP where "deletedAt" is null and "person"."id" = $1
+   * ```
+   */
+  public deleteFrom: SoftDeleteFrom<DB, SoftDeleteTable> = (tb: any) => {
+    const col = this.getColumn(tb)
+    // skip soft deleted rows, keep their delete time for `purgeDeleted`
+    return col
+      ? whereExist((this.kysely as Kysely<any>).updateTable(tb).set({ [col.name]: col.mode === 'timestamp' ? sql`CURRENT_TIMESTAMP` : 1 }), col)
+      : this.kysely.deleteFrom(tb)
+  }
+
+  /**
+   * Restore soft deleted rows
+   *
+   * ### Examples
+   *
+   * ```ts
+   * const result = await db
+   *   .restore('person')
+   *   .where('person.id', '=', '1')
+   *   .executeTakeFirst()
+   * ```
+   *
+   * The generated SQL (SQLite):
+   *
+   * ```sql
+   * update "person" set "isDeleted" = 0 where "isDeleted" = 1 and "person"."id" = $1
+   * -- or in `'timestamp'` mode
+   * update "person" set "deletedAt" = NULL where "deletedAt" is not null and "person"."id" = $1
    * ```
    */
-  public deleteFrom: Kysely<DB>['updateTable'] = (tb: any) => (this.kysely.updateTable(tb) as any).set(this.col, 1)
+  public restore = <TB extends SoftDeleteTable>(tb: TB): UpdateQueryBuilder<DB, TB, TB, UpdateResult> => {
+    const col = this.getColumn(tb)
+    if (!col) {
+      throw new Error(`Table "${tb}" has no soft delete column`)
+    }
+    return whereDeleted(
+      (this.kysely.updateTable(tb) as any).set(col.name, col.mode === 'timestamp' ? null : 0),
+      col,
+    )
+  }
+
+  /**
+   * Creates a real delete query of rows that are soft deleted before `before`,
+   * only for tables in `'timestamp'` mode
+   *
+   * ### Examples
+   *
+   * ```ts
+   * // purge rows deleted 30 days ago
+   * await db
+   *   .purgeDeleted('person', new Date(Date.now() - 30 * 24 * 3600 * 1000))
+   *   .execute()
+   * ```
+   *
+   * The generated SQL (SQLite):
+   *
+   * ```sql
+   * delete from "person" where datetime(trim("deletedAt", '"')) < datetime($1)
+   * ```
+   */
+  public purgeDeleted = <TB extends SoftDeleteTable>(tb: TB, before: Date): DeleteQueryBuilder<DB, TB, DeleteResult> => {
+    const col = this.getColumn(tb)
+    if (col?.mode !== 'timestamp') {
+      throw new Error(`Table "${tb}" is not soft deleted in timestamp mode`)
+    }
+    // `CURRENT_TIMESTAMP` and serialized date (JSON string) are in different format, normalize both
+    return (this.kysely.deleteFrom(tb) as any)
+      .where(sql`datetime(trim(${sql.ref(col.name)}, '"'))`, '<', sql`datetime(${before.toISOString()})`)
+  }
+
+  /**
+   * Creates a real delete query, rows are removed from table
+   */
+  public forceDeleteFrom: Kysely<DB>['deleteFrom'] = (tb: any) => this.kysely.deleteFrom(tb) as any
+
+  /**
+   * Query both exist and soft deleted rows
+   * @example
+   * await db.withDeleted().selectFrom('person').selectAll().execute()
+   */
+  public withDeleted(): SoftDeleteScope<DB> {
+    return this.scope(qb => qb)
+  }
+
+  /**
+   * Query soft deleted rows only, tables without soft delete column have no soft deleted rows
+   * @example
+   * await db.onlyDeleted().selectFrom('person').selectAll().execute()
+   */
+  public onlyDeleted(): SoftDeleteScope<DB> {
+    return this.scope((qb, tb) => {
+      const col = this.getColumn(tb)
+      return col ? whereDeleted(qb, col) : qb.where(sql<boolean>`0`)
+    })
+  }
+
+  private scope(filter: (qb: WhereInterface<any, any>, tb: string) => any): SoftDeleteScope<DB> {
+    return {
+      selectFrom: (tb: any) => filter(this.kysely.selectFrom(tb) as any, tb),
+      updateTable: (tb: any) => filter(this.kysely.updateTable(tb) as any, tb),
+    }
+  }
+}
+
+/**
+ * {@link SqliteBuilder} with soft delete, see {@link SoftDeleteSqliteBuilderConstructor}
+ */
+export type SoftDeleteSqliteBuilder<
+  DB extends Record<string, any>,
+  SoftDeleteTable extends keyof DB & string = keyof DB & string,
+> = SoftDeleteSqliteBuilderImpl<DB, SoftDeleteTable>
+
+export interface SoftDeleteSqliteBuilderConstructor {
+  /**
+   * If `schema` is set, database and soft delete tables are inferred from it,
+   * so that `deleteFrom` on tables without `softDelete` is typed as real delete
+   * @example
+   * const db = new SoftDeleteSqliteBuilder({ dialect, schema })
+   */
+  new<S extends Schema>(
+    options: SoftDeleteSqliteBuilderOptions & { schema: S },
+  ): SoftDeleteSqliteBuilder<InferDatabase<S>, InferSoftDeleteTable<S>>
+  /**
+   * Set database and soft delete tables explicitly
+   */
+  new<DB extends Record<string, any>, SoftDeleteTable extends keyof DB & string>(
+    options: SoftDeleteSqliteBuilderOptions & { schema: Schema },
+  ): SoftDeleteSqliteBuilder<DB, SoftDeleteTable>
+  /**
+   * Without `schema`, `deleteColumnName` is applied to every table
+   * @example
+   * const db = new SoftDeleteSqliteBuilder<DB>({ dialect })
+   */
+  new<DB extends Record<string, any>>(
+    options: SoftDeleteSqliteBuilderOptions & { schema?: undefined },
+  ): SoftDeleteSqliteBuilder<DB>
 }
+
+// eslint-disable-next-line ts/no-redeclare
+export const SoftDeleteSqliteBuilder = SoftDeleteSqliteBuilderImpl as SoftDeleteSqliteBuilderConstructor
@@ -0,0 +1,144 @@
+import type { ParsedSchema } from './schema/parse-exist'
+import type { DBLogger, Drift, SchemaUpdater } from './types'
+import type { Kysely, Migration } from 'kysely'
+
+import { DriftError } from './types'
+import { executeSQL } from './utils'
+
+/**
+ * Table to store checksums of applied migrations and synced schema,
+ * excluded when parsing exist schema
+ */
+export const CHECKSUM_TABLE = '__kysely_checksum'
+
+/**
+ * Checksum name of schema synced by `useSchema` or `useSyncDB`
+ */
+export const SCHEMA_CHECKSUM_NAME = 'schema'
+
+/**
+ * Drift check mode
+ *
+ * - `'error'`: fail `db.syncDB()` with {@link DriftError} before applying anything
+ * - `'warn'`: log drift by `DBLogger.warn` and continue
+ */
+export type DriftMode = 'error' | 'warn'
+
+/**
+ * 53-bit string hash (cyrb53), sync and works in every runtime
+ */
+export function hashString(str: string): string {
+  let h1 = 0xDEADBEEF
+  let h2 = 0x41C6CE57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+/**
+ * Checksum of migration function bodies
+ *
+ * Migrations created by `createMigration` share the same function bodies,
+ * so changes of their SQLs are not detected
+ */
+export function checksumMigration({ up, down }: Migration): string {
+  return hashString(`${up}\n${down}`)
+}
+
+/**
+ * Checksum of normalized parsed schema, table and index order is ignored
+ */
+export function checksumSchema(schema: ParsedSchema): string {
+  return hashString(JSON.stringify(
+    Object.keys(schema).sort().map(table => [table, {
+      ...schema[table],
+      index: [...schema[table].index].sort(),
+      indexes: [...schema[table].indexes].sort((a, b) => a.name.localeCompare(b.name)),
+    }]),
+  ))
+}
+
+/**
+ * Get stored checksums, key is checksum name
+ * @param db kysely instance
+ * @param prefix checksum name prefix
+ */
+export async function getChecksums(db: Kysely<any>, prefix = ''): Promise<Record<string, string>> {
+  const { rows: [table] } = await executeSQL(
+    db,
+    `SELECT 1 FROM "sqlite_master" WHERE "type" = 'table' AND "name" = '${CHECKSUM_TABLE}'`,
+  )
+  if (!table) {
+    return {}
+  }
+  const { rows } = await executeSQL<{ name: string, checksum: string }>(
+    db,
+    `SELECT "name", "checksum" FROM "${CHECKSUM_TABLE}" WHERE "name" LIKE ? || '%'`,
+    [prefix],
+  )
+  return Object.fromEntries(rows.map(({ name, checksum }) => [name, checksum]))
+}
+
+/**
+ * Store checksums
+ * @param db kysely instance
+ * @param checksums key is checksum name
+ * @param overwrite whether to overwrite exist checksums, if `false`, only missing checksums are stored
+ */
+export async function setChecksums(
+  db: Kysely<any>,
+  checksums: Record<string, string>,
+  overwrite = true,
+): Promise<void> {
+  await executeSQL(
+    db,
+    `CREATE TABLE IF NOT EXISTS "${CHECKSUM_TABLE}" ("name" TEXT PRIMARY KEY, "checksum" TEXT NOT NULL, "updateAt" TEXT DEFAULT CURRENT_TIMESTAMP)`,
+  )
+  for (const [name, checksum] of Object.entries(checksums)) {
+    await executeSQL(
+      db,
+      `INSERT ${overwrite ? 'OR REPLACE' : 'OR IGNORE'} INTO "${CHECKSUM_TABLE}" ("name", "checksum") VALUES (?, ?)`,
+      [name, checksum],
+    )
+  }
+}
+
+/**
+ * Remove stored checksums
+ * @param db kysely instance
+ * @param names checksum names
+ */
+export async function removeChecksums(db: Kysely<any>, names: string[]): Promise<void> {
+  for (const name of names) {
+    await executeSQL(db, `DELETE FROM "${CHECKSUM_TABLE}" WHERE "name" = ?`, [name])
+  }
+}
+
+/**
+ * Create {@link SchemaUpdater.verify} that reports drifts by mode
+ * @param mode drift mode
+ * @param detect detect drifts
+ */
+export function createDriftVerifier(
+  mode: DriftMode,
+  detect: (db: Kysely<any>) => Promise<Drift[]>,
+): NonNullable<SchemaUpdater['verify']> {
+  return async (db: Kysely<any>, logger?: DBLogger) => {
+    const drifts = await detect(db)
+    if (!drifts.length) {
+      return { ready: true }
+    }
+    const error = new DriftError(drifts)
+    if (mode === 'warn') {
+      logger?.warn(error.message)
+      return { ready: true }
+    }
+    logger?.error('Drift detected', error)
+    return { ready: false, error }
+  }
+}
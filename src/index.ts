@@ -1,8 +1,11 @@
+export * from './backup'
 export * from './builder'
+export * from './checksum'
 export * from './logger'
 export * from './page-query'
 export * from './pragma'
 export * from './precompile'
 export * from './savepoint'
+export * from './soft-delete-plugin'
 export * from './types'
 export * from './utils'
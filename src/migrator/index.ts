@@ -1,35 +1,162 @@
-import type { DBLogger, SchemaUpdater } from '../types'
-import type { Kysely, MigrationProvider, MigratorProps } from 'kysely'
+import type { DriftMode } from '../checksum'
+import type { DBLogger, Drift, SchemaUpdater } from '../types'
+import type { Kysely, MigrationProvider, MigrationResultSet, MigratorProps } from 'kysely'
 
-import { Migrator } from 'kysely'
+import { Migrator, NO_MIGRATIONS } from 'kysely'
+
+import {
+  checksumMigration,
+  createDriftVerifier,
+  getChecksums,
+  removeChecksums,
+  setChecksums,
+} from '../checksum'
 
 export * from './code-provider'
+export * from './module-provider'
+export * from './sync-db'
 
 /**
- * Use migrator to migrate to latest
+ * Migration target
+ *
+ * - `'latest'`: migrate to latest
+ * - `'reset'`: revert all executed migrations
+ * - `{ to: name }`: migrate up or down to named migration
+ * - `{ down: n }`: revert last `n` executed migrations
+ */
+export type MigrationTarget = 'latest' | 'reset' | { to: string } | { down: number }
+
+export type MigratorOptions = Omit<MigratorProps, 'db' | 'provider'> & {
+  /**
+   * Migration target, default is `'latest'`
+   */
+  target?: MigrationTarget
+  /**
+   * Store checksums of executed migrations, and check whether they are modified
+   * before next `db.syncDB()`
+   */
+  checkDrift?: DriftMode
+}
+
+export type MigrationStatus = {
+  name: string
+  /**
+   * - `executed`: migration has been executed
+   * - `pending`: migration has not been executed
+   */
+  status: 'executed' | 'pending'
+  /**
+   * Executed time, `undefined` if pending
+   */
+  executedAt: Date | undefined
+}
+
+async function runMigrator(migrator: Migrator, target: MigrationTarget): Promise<MigrationResultSet> {
+  if (target === 'latest') {
+    return await migrator.migrateToLatest()
+  }
+  if (target === 'reset') {
+    return await migrator.migrateTo(NO_MIGRATIONS)
+  }
+  if ('to' in target) {
+    return await migrator.migrateTo(target.to)
+  }
+  const executed = (await migrator.getMigrations()).filter(m => m.executedAt)
+  const targetMigration = executed[executed.length - 1 - target.down]
+  return await migrator.migrateTo(target.down > 0 && targetMigration ? targetMigration.name : NO_MIGRATIONS)
+}
+
+const MIGRATION_CHECKSUM_PREFIX = 'migration:'
+
+/**
+ * Store checksums of executed migrations, keep exist checksums to report modified migrations until reverted
+ */
+async function updateMigrationChecksums(migrator: Migrator, db: Kysely<any>): Promise<void> {
+  const checksums: Record<string, string> = {}
+  const reverted: string[] = []
+  for (const { name, migration, executedAt } of await migrator.getMigrations()) {
+    if (executedAt) {
+      checksums[MIGRATION_CHECKSUM_PREFIX + name] = checksumMigration(migration)
+    } else {
+      reverted.push(MIGRATION_CHECKSUM_PREFIX + name)
+    }
+  }
+  await setChecksums(db, checksums, false)
+  await removeChecksums(db, reverted)
+}
+
+/**
+ * Use migrator to migrate to target, default is latest
  * @param provider migration provider
  * @param options migrator options
+ * @example
+ * // migrate to latest
+ * await db.syncDB(useMigrator(provider))
+ * // revert last 2 migrations
+ * await db.syncDB(useMigrator(provider, { target: { down: 2 } }))
  */
 export function useMigrator(
   provider: MigrationProvider,
-  options?: Omit<MigratorProps, 'db' | 'provider'>,
+  options: MigratorOptions = {},
 ): SchemaUpdater {
-  return async (db: Kysely<any>, logger?: DBLogger) => {
-    const migrator = new Migrator({ db, provider, ...options })
-    const { error, results } = await migrator.migrateToLatest()
+  const { target = 'latest', checkDrift, ...props } = options
+  const updater: SchemaUpdater = async (db: Kysely<any>, logger?: DBLogger) => {
+    if (typeof target === 'object' && 'down' in target && target.down <= 0) {
+      return { ready: true as const }
+    }
+    const migrator = new Migrator({ db, provider, ...props })
+    const { error, results } = await runMigrator(migrator, target)
+    if (checkDrift) {
+      await updateMigrationChecksums(migrator, db)
+    }
 
     results?.forEach((it) => {
+      const isUp = it.direction === 'Up'
       if (it.status === 'Success') {
-        logger?.debug(`migration "${it.migrationName}" was executed successfully`)
+        logger?.debug(`migration "${it.migrationName}" was ${isUp ? 'executed' : 'reverted'} successfully`)
       } else if (it.status === 'Error') {
-        logger?.error(`failed to execute migration "${it.migrationName}"`)
+        logger?.error(`failed to ${isUp ? 'execute' : 'revert'} migration "${it.migrationName}"`)
       }
     })
 
     if (!error) {
       return { ready: true as const }
     }
-    logger?.error('failed to run `migrateToLatest`', error as any)
+    logger?.error(`failed to migrate to ${typeof target === 'string' ? target : JSON.stringify(target)}`, error as any)
     return { ready: false as const, error }
   }
+  if (checkDrift) {
+    updater.verify = createDriftVerifier(checkDrift, async (db) => {
+      const checksums = await getChecksums(db, MIGRATION_CHECKSUM_PREFIX)
+      const drifts: Drift[] = []
+      for (const { name, migration, executedAt } of await new Migrator({ db, provider, ...props }).getMigrations()) {
+        const expected = checksums[MIGRATION_CHECKSUM_PREFIX + name]
+        const actual = checksumMigration(migration)
+        if (executedAt && expected && expected !== actual) {
+          drifts.push({ type: 'migration', name, expected, actual })
+        }
+      }
+      return drifts
+    })
+  }
+  return updater
+}
+
+/**
+ * Get executed and pending migrations, sorted by name
+ * @param db kysely instance
+ * @param provider migration provider
+ * @param options migrator options
+ */
+export async function listMigrations(
+  db: Kysely<any>,
+  provider: MigrationProvider,
+  options: Omit<MigratorProps, 'db' | 'provider'> = {},
+): Promise<MigrationStatus[]> {
+  const migrations = await new Migrator({ db, provider, ...options }).getMigrations()
+  return migrations.map(({ name, executedAt }) => ({
+    name,
+    status: executedAt ? 'executed' : 'pending',
+    executedAt,
+  }))
 }
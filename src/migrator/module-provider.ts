@@ -0,0 +1,130 @@
+import type { Promisable } from '@subframe7536/type-utils'
+import type { Migration, MigrationProvider } from 'kysely'
+
+export type MigrationModule = Partial<Migration> | { default: Partial<Migration> }
+
+/**
+ * Module map like `import.meta.glob('./migrations/*.ts')`, support both lazy and eager
+ */
+export type MigrationModuleMap = Record<string, MigrationModule | (() => Promisable<MigrationModule>)>
+
+export type ModuleProviderOptions = {
+  /**
+   * Index id length, default is 8
+   */
+  idLength?: number
+}
+
+const MIGRATION_FILE_REGEX = /\.[cm]?[jt]s$/
+
+/**
+ * Get migration name from file path, e.g. `./migrations/00000001_init.ts` -> `00000001_init`
+ */
+function parseMigrationName(path: string): string {
+  return path.split(/[/\\]/).pop()!.replace(MIGRATION_FILE_REGEX, '')
+}
+
+async function loadMigrations(modules: MigrationModuleMap, idLength: number): Promise<Record<string, Migration>> {
+  const idRegex = new RegExp(`^(\\d{${idLength}})(?:[-_.].*)?$`)
+  const errors: string[] = []
+  const idMap = new Map<number, string>()
+
+  for (const path of Object.keys(modules)) {
+    const name = parseMigrationName(path)
+    const match = idRegex.exec(name)
+    if (!match) {
+      errors.push(`Invalid migration name "${name}", should start with ${idLength} digits id`)
+      continue
+    }
+    const id = Number(match[1])
+    if (idMap.has(id)) {
+      errors.push(`Duplicate migration id ${match[1]} in "${idMap.get(id)}" and "${name}"`)
+      continue
+    }
+    idMap.set(id, name)
+  }
+
+  const sortedIds = [...idMap.keys()].sort((a, b) => a - b)
+  for (let i = 1; i < sortedIds.length; i++) {
+    if (sortedIds[i] !== sortedIds[i - 1] + 1) {
+      errors.push(`Missing migration id between "${idMap.get(sortedIds[i - 1])}" and "${idMap.get(sortedIds[i])}"`)
+    }
+  }
+
+  const result: Record<string, Migration> = {}
+  for (const [path, module] of Object.entries(modules)) {
+    const name = parseMigrationName(path)
+    const loaded = typeof module === 'function' ? await module() : module
+    const migration = 'default' in loaded ? loaded.default : loaded
+    if (typeof migration?.up !== 'function') {
+      errors.push(`Missing "up" function in migration "${name}"`)
+      continue
+    }
+    result[name] = migration as Migration
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid migrations:\n${errors.join('\n')}`)
+  }
+  return result
+}
+
+/**
+ * Create provider from module map, validate migration names, ids and `up` functions before running
+ *
+ * Migration file name should start with padded id, e.g. `00000001_init.ts`,
+ * and ids should be unique and continuous
+ * @param modules module map, key is file path and value is module or module loader
+ * @param options provider options
+ * @example
+ * ```ts
+ * import { createModuleProvider, useMigrator } from 'kysely-sqlite-builder/migrator'
+ *
+ * // vite
+ * const provider = createModuleProvider(import.meta.glob('./migrations/*.ts'))
+ * await db.syncDB(useMigrator(provider, options))
+ * ```
+ */
+export function createModuleProvider(
+  modules: MigrationModuleMap,
+  options: ModuleProviderOptions = {},
+): MigrationProvider {
+  return {
+    getMigrations: async () => await loadMigrations(modules, options.idLength ?? 8),
+  }
+}
+
+/**
+ * Create provider from migration files in directory, only works in Node / Bun,
+ * see {@link createModuleProvider}
+ * @param dir absolute path of migration directory
+ * @param options provider options
+ * @example
+ * ```ts
+ * import { createDirectoryProvider, useMigrator } from 'kysely-sqlite-builder/migrator'
+ *
+ * const provider = createDirectoryProvider(join(import.meta.dirname, 'migrations'))
+ * await db.syncDB(useMigrator(provider, options))
+ * ```
+ */
+export function createDirectoryProvider(
+  dir: string,
+  options: ModuleProviderOptions = {},
+): MigrationProvider {
+  return {
+    getMigrations: async () => {
+      // lazy import to keep bundler friendly
+      const { readdir } = await import('node:fs/promises')
+      const { join } = await import('node:path')
+      const { pathToFileURL } = await import('node:url')
+
+      const modules: MigrationModuleMap = {}
+      for (const file of await readdir(dir)) {
+        if (MIGRATION_FILE_REGEX.test(file) && !file.includes('.d.')) {
+          modules[file] = async () => await import(pathToFileURL(join(dir, file)).href)
+        }
+      }
+      return await loadMigrations(modules, options.idLength ?? 8)
+    },
+  }
+}
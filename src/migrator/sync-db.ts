@@ -0,0 +1,158 @@
+import type { SchemaSyncOptions } from '../schema/core'
+import type { ParsedSchema } from '../schema/parse-exist'
+import type { SchemaSnapshot } from '../schema/snapshot'
+import type { InferDatabase, Schema } from '../schema/types'
+import type { DBLogger, SchemaUpdater, StatusResult } from '../types'
+import type { Promisable } from '@subframe7536/type-utils'
+import type { Kysely, Transaction } from 'kysely'
+
+import { getOrSetDBVersion } from '../pragma'
+import { createSchemaDriftVerifier, syncTables } from '../schema/core'
+import { parseExistSchema } from '../schema/parse-exist'
+
+export type DataMigration<DB> = {
+  /**
+   * Target `user_version` after migration. **Integer only**
+   *
+   * Migration runs only when db's `user_version` is less than it
+   */
+  version: number
+  /**
+   * Run before structural sync, tables are in old schema
+   * @param trx transaction
+   */
+  before?: (trx: Transaction<any>) => Promisable<void>
+  /**
+   * Run after structural sync, tables are in new schema
+   * @param trx transaction
+   */
+  after?: (trx: Transaction<DB>) => Promisable<void>
+}
+
+export type SyncDBOptions<T extends Schema> = Pick<
+  SchemaSyncOptions<T>,
+  | 'log'
+  | 'excludeTablePrefix'
+  | 'truncateIfExists'
+  | 'fallback'
+  | 'transform'
+  | 'allowDestructive'
+  | 'backup'
+  | 'checkDrift'
+  | 'snapshot'
+  | 'onDiff'
+  | 'onError'
+> & {
+  /**
+   * Data migrations, sorted by `version` before running
+   */
+  migrations?: DataMigration<InferDatabase<T>>[]
+  /**
+   * Trigger on sync success
+   * @param db kysely instance
+   * @param oldSchema old database schema
+   * @param oldVersion old database version
+   * @param oldSnapshot old logical schema, `undefined` if `snapshot` is disabled or not exists
+   */
+  onSuccess?: (
+    db: Kysely<InferDatabase<T>>,
+    oldSchema: ParsedSchema,
+    oldVersion: number,
+    oldSnapshot: SchemaSnapshot | undefined,
+  ) => Promisable<void>
+}
+
+function sortMigrations<DB>(migrations: DataMigration<DB>[]): DataMigration<DB>[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version)
+  for (let i = 0; i < sorted.length; i++) {
+    const { version } = sorted[i]
+    if (!Number.isInteger(version) || version <= 0) {
+      throw new Error(`Invalid data migration version ${version}, should be positive integer`)
+    }
+    if (version === sorted[i - 1]?.version) {
+      throw new Error(`Duplicate data migration version ${version}`)
+    }
+  }
+  return sorted
+}
+
+/**
+ * Sync tables using schema, and run versioned data migrations before / after it,
+ * all changes are applied in one transaction
+ *
+ * Pending migrations are decided by db's `user_version`,
+ * which is set to the latest migration version after sync.
+ * If some pending migrations have `before`, diff is regenerated after them and `onDiff` is triggered again
+ * @param schema table schema, see {@link defineTable}
+ * @param options sync options
+ * @example
+ * await db.syncDB(useSyncDB(schema, {
+ *   migrations: [
+ *     {
+ *       version: 1,
+ *       // split `name` into `firstName` and `lastName`
+ *       after: async (trx) => {
+ *         await sql`update user set firstName = substr(name, 1, instr(name, ' ') - 1), lastName = substr(name, instr(name, ' ') + 1)`.execute(trx)
+ *       },
+ *     },
+ *   ],
+ * }))
+ */
+export function useSyncDB<T extends Schema>(
+  schema: T,
+  options: SyncDBOptions<T> = {},
+): SchemaUpdater {
+  const { migrations = [], onSuccess, ...syncOptions } = options
+
+  const updater: SchemaUpdater = async (db: Kysely<any>, logger?: DBLogger): Promise<StatusResult> => {
+    const debug = (e: string): any => syncOptions.log && logger?.debug(e)
+    const oldVersion = await getOrSetDBVersion(db)
+
+    let pendingMigrations: DataMigration<InferDatabase<T>>[]
+    try {
+      pendingMigrations = sortMigrations(migrations).filter(m => m.version > oldVersion)
+    } catch (e) {
+      await syncOptions.onError?.(e, undefined, await parseExistSchema(db, syncOptions.excludeTablePrefix), schema)
+      debug(`Sync failed, ${e}`)
+      return { ready: false, error: e }
+    }
+    const latestVersion = pendingMigrations[pendingMigrations.length - 1]?.version
+
+    return await syncTables(
+      db,
+      schema,
+      {
+        ...syncOptions,
+        version: latestVersion ? { current: latestVersion, skipSyncWhenSame: false } : undefined,
+        onSuccess: onSuccess && (async (db, existSchema, _, existSnapshot) => {
+          await onSuccess(db, existSchema, oldVersion, existSnapshot)
+        }),
+      },
+      syncOptions.log ? logger : undefined,
+      {
+        before: async (trx) => {
+          for (const { version, before } of pendingMigrations) {
+            if (before) {
+              debug(`- Run data migration ${version} before sync`)
+              await before(trx)
+            }
+          }
+          // schema may be changed by migrations
+          return pendingMigrations.some(m => m.before)
+        },
+        after: async (trx) => {
+          for (const { version, after } of pendingMigrations) {
+            if (after) {
+              debug(`- Run data migration ${version} after sync`)
+              await after(trx)
+            }
+          }
+        },
+      },
+    )
+  }
+  if (syncOptions.checkDrift) {
+    updater.verify = createSchemaDriftVerifier(syncOptions.checkDrift, syncOptions.excludeTablePrefix)
+  }
+  return updater
+}
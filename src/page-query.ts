@@ -1,5 +1,61 @@
-import type { StringKeys } from '@subframe7536/type-utils'
-import type { SelectQueryBuilder } from 'kysely'
+import type { BaseSqliteBuilder } from './builder/base'
+import type { Schema } from './schema/types'
+import type { Arrayable, StringKeys } from '@subframe7536/type-utils'
+import type {
+  Expression,
+  KyselyPlugin,
+  PluginTransformQueryArgs,
+  PluginTransformResultArgs,
+  QueryResult,
+  RootOperationNode,
+  SelectQueryBuilder,
+  Transaction,
+  UnknownRow,
+} from 'kysely'
+
+import {
+  AggregateFunctionNode,
+  AliasNode,
+  IdentifierNode,
+  SelectAllNode,
+  SelectionNode,
+  SelectQueryNode,
+  sql,
+  TableNode,
+} from 'kysely'
+
+export type OrderByDirection = 'asc' | 'desc'
+
+export type OrderByNulls = 'first' | 'last'
+
+type OrderByModifier = {
+  /**
+   * order direction
+   * @default 'asc'
+   */
+  direction?: OrderByDirection
+  /**
+   * nulls position, SQLite puts nulls first in `asc` and last in `desc` by default
+   */
+  nulls?: OrderByNulls
+}
+
+export type ColumnOrderBy<Column extends string> = OrderByModifier & {
+  column: Column
+}
+
+export type ExpressionOrderBy = OrderByModifier & {
+  expression: Expression<any>
+}
+
+/**
+ * Order by column or expression
+ * @example
+ * [{ column: 'createAt', direction: 'desc' }, { expression: sql`length("name")`, nulls: 'last' }]
+ */
+export type OrderBySpec<DB extends Record<string, any>, TB extends keyof DB>
+  = | ColumnOrderBy<StringKeys<DB[TB]>>
+    | ExpressionOrderBy
 
 export type PageOptions<DB extends Record<string, any>, TB extends keyof DB, Total extends boolean> = {
   /**
@@ -11,17 +67,41 @@ export type PageOptions<DB extends Record<string, any>, TB extends keyof DB, Tot
    */
   num: number
   /**
-   * column name to order by asc
+   * order by list, applied after ordering of query builder,
+   * use {@link parseSortString} to parse user input
    */
-  asc?: StringKeys<DB[TB]>
+  orderBy?: readonly OrderBySpec<DB, TB>[]
   /**
-   * column name to order by desc
+   * column names to order by asc, applied after `orderBy`
    */
-  desc?: StringKeys<DB[TB]>
+  asc?: Arrayable<StringKeys<DB[TB]>>
+  /**
+   * column names to order by desc, applied after `asc`
+   */
+  desc?: Arrayable<StringKeys<DB[TB]>>
   /**
    * whether query total size
    */
   queryTotal?: Total
+  /**
+   * how to query total, only works with `queryTotal: true`
+   *
+   * - `'count'`: query total in another count query (default)
+   * - `'window'`: query records and total in one query, using `count(*) over ()`.
+   * `distinct` and compound select fall back to `'count'`,
+   * empty page after the first one also queries total by `'count'`
+   */
+  totalStrategy?: 'count' | 'window'
+  /**
+   * builder to run records and total queries in one transaction, keep them consistent under concurrent writes
+   * @example
+   * await pageQuery(db.selectFrom('test').selectAll(), { num: 1, size: 10, queryTotal: true, transaction: db })
+   */
+  transaction?: Pick<BaseSqliteBuilder<any>, 'transaction'>
+  /**
+   * table schema, used to detect `WITHOUT ROWID` tables
+   */
+  schema?: Schema
 }
 
 export type PaginationResult<Total extends boolean, O> = {
@@ -60,17 +140,154 @@ export type PaginationResult<Total extends boolean, O> = {
   hasNextPage: boolean
 } : {})
 
+/**
+ * Parse sort string from user input (e.g. HTTP query params) into {@link OrderBySpec} list,
+ * throw if column is not in allowlist or modifier is invalid
+ *
+ * Format: comma separated `column[:direction[:nulls]]`, or `-column` for desc
+ * @param input sort string
+ * @param allowlist allowed column names
+ * @example
+ * parseSortString('-createAt,name:asc:last', ['createAt', 'name'])
+ * // [{ column: 'createAt', direction: 'desc' }, { column: 'name', direction: 'asc', nulls: 'last' }]
+ */
+export function parseSortString<Column extends string>(
+  input: string,
+  allowlist: readonly Column[],
+): ColumnOrderBy<Column>[] {
+  const result: ColumnOrderBy<Column>[] = []
+  for (const part of input.split(',')) {
+    const item = part.trim()
+    if (!item) {
+      continue
+    }
+    const isDesc = item.startsWith('-')
+    const [column, direction = isDesc ? 'desc' : 'asc', nulls, ...rest] = (isDesc ? item.slice(1) : item).split(':')
+    if (!allowlist.includes(column as Column)) {
+      throw new Error(`Invalid sort column "${column}"`)
+    }
+    const _direction = direction.toLowerCase()
+    if ((_direction !== 'asc' && _direction !== 'desc') || (isDesc && _direction !== 'desc') || rest.length) {
+      throw new Error(`Invalid sort direction "${direction}" of column "${column}"`)
+    }
+    const _nulls = nulls?.toLowerCase()
+    if (_nulls !== undefined && _nulls !== 'first' && _nulls !== 'last') {
+      throw new Error(`Invalid sort nulls "${nulls}" of column "${column}"`)
+    }
+    result.push({ column: column as Column, direction: _direction, ..._nulls ? { nulls: _nulls } : {} })
+  }
+  return result
+}
+
+function applyOrderBy<QB extends SelectQueryBuilder<any, any, any>>(
+  qb: QB,
+  orderBy: readonly OrderBySpec<any, any>[],
+): QB {
+  for (const spec of orderBy) {
+    const { direction = 'asc', nulls } = spec
+    qb = qb.orderBy('expression' in spec ? spec.expression : spec.column, (ob) => {
+      const item = direction === 'desc' ? ob.desc() : ob.asc()
+      return nulls ? nulls === 'first' ? item.nullsFirst() : item.nullsLast() : item
+    }) as QB
+  }
+  return qb
+}
+
+/**
+ * Whether records can be paged by `rowid` subquery, which only selects `rowid` in offset scan
+ */
+function canPageByRowId(node: SelectQueryNode, schema?: Schema): boolean {
+  const froms = node.from?.froms
+  if (
+    froms?.length !== 1
+    || !TableNode.is(froms[0])
+    || node.with
+    || node.joins?.length
+    || node.groupBy
+    || node.having
+    || node.distinctOn
+    || node.setOperations?.length
+    || node.frontModifiers?.some(m => m.modifier === 'Distinct')
+  ) {
+    return false
+  }
+  return !schema?.[froms[0].table.identifier.name]?.withoutRowId
+}
+
+/**
+ * Whether total can be counted by replacing selections with `count(*)`
+ */
+function canCountBySelection(node: SelectQueryNode): boolean {
+  return !node.groupBy
+    && !node.having
+    && !node.distinctOn
+    && !node.setOperations?.length
+    && !node.frontModifiers?.some(m => m.modifier === 'Distinct')
+}
+
+/**
+ * Whether total can be selected by `count(*) over ()`, which is evaluated before `distinct`
+ */
+function canCountByWindow(node: SelectQueryNode): boolean {
+  return !node.distinctOn
+    && !node.setOperations?.length
+    && !node.frontModifiers?.some(m => m.modifier === 'Distinct')
+}
+
+async function executeQuery<R>(qb: SelectQueryBuilder<any, any, R>, trx?: Transaction<any>): Promise<R[]> {
+  return trx ? (await trx.executeQuery(qb)).rows : await qb.execute()
+}
+
+const WINDOW_TOTAL = '__total'
+
+/**
+ * Wrap select query as subquery and count its rows,
+ * `select count(*) as "total" from (...) as "__page"`
+ */
+class CountWrapPlugin implements KyselyPlugin {
+  transformQuery({ node }: PluginTransformQueryArgs): RootOperationNode {
+    if (!SelectQueryNode.is(node)) {
+      return node
+    }
+    // CTEs are hoisted to outer query
+    const subquery: SelectQueryNode = { ...node, with: undefined }
+    return SelectQueryNode.cloneWithSelections(
+      SelectQueryNode.createFrom([AliasNode.create(subquery, IdentifierNode.create('__page'))], node.with),
+      [SelectionNode.create(AliasNode.create(
+        AggregateFunctionNode.create('count', [SelectAllNode.create()]),
+        IdentifierNode.create('total'),
+      ))],
+    )
+  }
+
+  async transformResult({ result }: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return result
+  }
+}
+
 /**
  * Page query, using offset
  *
  * if `num <= 0` or `size <= 0`, return all records
+ *
+ * Simple single table query is paged in `rowid` subquery.
+ * Queries with joins, aliased table, CTEs, `group by`, `distinct` or compound select,
+ * and `WITHOUT ROWID` tables (detected by `schema` option) are paged directly,
+ * and total is counted by wrapped subquery if needed
+ *
+ * Use `totalStrategy: 'window'` or `transaction` to keep records and total consistent
  * @param qb select query builder
  * @param options page options
  * @example
  * ```ts
  * import { pageQuery } from 'kysely-sqlite-builder'
  *
- * const page = await pageQuery(db.selectFrom('test').selectAll(), { num: 1, size: 10, queryTotal: true })
+ * const page = await pageQuery(db.selectFrom('test').selectAll(), {
+ *   num: 1,
+ *   size: 10,
+ *   queryTotal: true,
+ *   orderBy: [{ column: 'createAt', direction: 'desc', nulls: 'last' }, { column: 'id' }],
+ * })
  * // {
  * //   total: 100,
  * //   current: 1,
@@ -88,52 +305,84 @@ export async function pageQuery<O, DB extends Record<string, any>, TB extends ke
   qb: SelectQueryBuilder<DB, TB, O>,
   options: PageOptions<DB, TB, Total>,
 ): Promise<PaginationResult<Total, O>> {
-  const { num, size, asc = [], desc = [], queryTotal } = options
+  const {
+    num,
+    size,
+    orderBy = [],
+    asc = [],
+    desc = [],
+    queryTotal,
+    totalStrategy = 'count',
+    transaction,
+    schema,
+  } = options
   const _num = ~~num
   const _size = ~~size
-  const records = await qb
-    .$call((qb1) => {
-      qb1 = qb1
+  const node = qb.toOperationNode()
+  const isPaged = _size > 0 && _num > 0
+  const useWindow = !!queryTotal && totalStrategy === 'window' && canCountByWindow(node)
+  const orderedQuery = applyOrderBy(qb.clearLimit().clearOffset(), [
+    ...orderBy,
+    ...([] as string[]).concat(asc).map(column => ({ column, direction: 'asc' as const })),
+    ...([] as string[]).concat(desc).map(column => ({ column, direction: 'desc' as const })),
+  ])
+  const recordQuery = useWindow || !canPageByRowId(node, schema)
+    ? orderedQuery
+        .$if(useWindow, qb1 => qb1.select(sql<number>`count(*) over ()`.as(WINDOW_TOTAL)))
+        .$if(isPaged, qb1 => qb1.limit(_size).offset((_num - 1) * _size))
+    // ordering is applied in both subquery and outer query
+    : orderedQuery
         .clearWhere()
-        .clearLimit()
-        .clearOffset()
         .where(
           'rowid',
           'in',
-          qb1
+          orderedQuery
             .clearSelect()
             .select('rowid')
-            .$if(_size > 0 && _num > 0, qb2 => qb2.offset((_num - 1) * _size).limit(_size)),
+            .$if(isPaged, qb1 => qb1.offset((_num - 1) * _size).limit(_size)),
         )
+  const countQuery = qb.clearLimit().clearOffset().clearOrderBy()
+  const totalQuery: SelectQueryBuilder<any, any, { total: number | bigint }> = canCountBySelection(node)
+    ? countQuery.clearSelect().select(eb => eb.fn.countAll<number>().as('total'))
+    : countQuery.withPlugin(new CountWrapPlugin()) as any
 
-      for (const _a of asc) {
-        qb1 = qb1.orderBy(_a, 'asc')
+  const run = async (trx?: Transaction<any>): Promise<[records: O[], total: number]> => {
+    const records = await executeQuery(recordQuery, trx)
+    if (!queryTotal) {
+      return [records, 0]
+    }
+    if (useWindow && (records.length || _num <= 1)) {
+      const total = records.length ? Number((records[0] as any)[WINDOW_TOTAL]) : 0
+      for (const record of records) {
+        Reflect.deleteProperty(record as object, WINDOW_TOTAL)
       }
-      for (const _d of desc) {
-        qb1 = qb1.orderBy(_d, 'desc')
-      }
-      return qb1
-    })
-    .execute()
-
-  const total = queryTotal
-    ? (await qb
-        .clearLimit()
-        .clearOffset()
-        .clearSelect()
-        .select(eb => eb.fn.countAll().as('total'))
-        .executeTakeFirstOrThrow())
-        // @ts-expect-error have total
-        .total
-    : 0
+      return [records, total]
+    }
+    const [{ total }] = await executeQuery(totalQuery, trx)
+    return [records, Number(total)]
+  }
+
+  let result: [O[], number] | undefined
+  if (transaction) {
+    let error: unknown
+    result = await transaction.transaction(async trx => await run(trx), { onRollback: (e) => {
+      error = e
+    } })
+    if (!result) {
+      throw error
+    }
+  } else {
+    result = await run()
+  }
+  const [records, total] = result
 
   const data = {
     ...queryTotal
       ? {
           total,
           hasPrevPage: _num > 1,
-          hasNextPage: total ? _num * _size < total : false,
-          pages: total ? ~~(total / _size) + 1 : 0,
+          hasNextPage: isPaged && _num * _size < total,
+          pages: isPaged ? Math.ceil(total / _size) : total ? 1 : 0,
         }
       : {},
     size: records.length,
@@ -145,3 +394,169 @@ export async function pageQuery<O, DB extends Record<string, any>, TB extends ke
     convertRecords: fn => ({ ...data, records: records.map(fn) }),
   } as PaginationResult<Total, O>
 }
+
+export type CursorKey<DB extends Record<string, any>, TB extends keyof DB> = {
+  /**
+   * column name, should be selected in records
+   */
+  column: StringKeys<DB[TB]>
+  /**
+   * order direction
+   * @default 'asc'
+   */
+  direction?: 'asc' | 'desc'
+}
+
+export type CursorOptions<DB extends Record<string, any>, TB extends keyof DB> = {
+  /**
+   * page size
+   */
+  size: number
+  /**
+   * ordered key set, the combination should be unique,
+   * e.g. `[{ column: 'createAt', direction: 'desc' }, { column: 'id', direction: 'desc' }]`
+   *
+   * key columns should be not null
+   */
+  orderBy: readonly CursorKey<DB, TB>[]
+  /**
+   * `nextCursor` or `prevCursor` of previous result, query first page if not set
+   */
+  cursor?: string
+}
+
+export type CursorPaginationResult<O> = {
+  /**
+   * all records in current page
+   */
+  records: O[]
+  /**
+   * record count in current page
+   */
+  size: number
+  /**
+   * cursor of next page, `undefined` if no next page
+   */
+  nextCursor?: string
+  /**
+   * cursor of prev page, `undefined` if no prev page
+   */
+  prevCursor?: string
+  /**
+   * convert records to new object
+   */
+  convertRecords: <T>(fn: (records: O) => T) => Omit<CursorPaginationResult<T>, 'convertRecords'>
+}
+
+type CursorDirection = 'next' | 'prev'
+
+type CursorValue = string | number | boolean | { $date: string }
+
+const DATE_FORMAT = '%Y-%m-%d %H:%M:%f'
+
+function encodeCursor(direction: CursorDirection, record: any, keys: readonly CursorKey<any, any>[]): string {
+  const values = keys.map(({ column }) => {
+    const name = column.split('.').pop()!
+    if (!(name in record)) {
+      throw new Error(`Cursor column "${column}" is not selected`)
+    }
+    const value = record[name]
+    return value instanceof Date ? { $date: value.toISOString() } : value
+  })
+  const bytes = new TextEncoder().encode(JSON.stringify([direction, values]))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeCursor(cursor: string, keyCount: number): [CursorDirection, CursorValue[]] {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const result = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0))))
+    if ((result[0] === 'next' || result[0] === 'prev') && result[1]?.length === keyCount) {
+      return result
+    }
+  } catch {}
+  throw new Error(`Invalid cursor: ${cursor}`)
+}
+
+/**
+ * Get comparable operands, dates are stored as `CURRENT_TIMESTAMP`
+ * or serialized JSON string, so normalize both
+ */
+function parseOperands(column: string, value: CursorValue): [lhs: any, rhs: any] {
+  return typeof value === 'object' && value
+    ? [
+        sql`strftime(${DATE_FORMAT}, trim(${sql.ref(column)}, '"'))`,
+        sql`strftime(${DATE_FORMAT}, ${value.$date})`,
+      ]
+    : [sql.ref(column), value]
+}
+
+/**
+ * Cursor (keyset) page query, using ordered key set instead of offset,
+ * so deep pages are as fast as the first one, and works with `WITHOUT ROWID` tables
+ *
+ * Cursors are opaque strings, which contain direction and key values of the boundary record
+ * @param qb select query builder, order by and limit are overridden
+ * @param options cursor options
+ * @example
+ * ```ts
+ * import { cursorQuery } from 'kysely-sqlite-builder'
+ *
+ * const orderBy = [{ column: 'createAt', direction: 'desc' }, { column: 'id', direction: 'desc' }] as const
+ * const page1 = await cursorQuery(db.selectFrom('test').selectAll(), { size: 10, orderBy })
+ * const page2 = await cursorQuery(db.selectFrom('test').selectAll(), { size: 10, orderBy, cursor: page1.nextCursor })
+ * // back to page1
+ * await cursorQuery(db.selectFrom('test').selectAll(), { size: 10, orderBy, cursor: page2.prevCursor })
+ * ```
+ */
+export async function cursorQuery<O, DB extends Record<string, any>, TB extends keyof DB>(
+  qb: SelectQueryBuilder<DB, TB, O>,
+  options: CursorOptions<DB, TB>,
+): Promise<CursorPaginationResult<O>> {
+  const { size, orderBy, cursor } = options
+  const _size = ~~size
+  if (_size <= 0) {
+    throw new Error(`Invalid cursor page size ${size}, should be positive integer`)
+  }
+  if (!orderBy.length) {
+    throw new Error('Cursor page query should have at least one order key')
+  }
+  const [direction, values] = cursor ? decodeCursor(cursor, orderBy.length) : ['next' as const, undefined]
+  const isPrev = direction === 'prev'
+
+  let _qb = qb.clearOrderBy().clearLimit().clearOffset() as SelectQueryBuilder<any, any, O>
+  if (values) {
+    // (k1 > v1) or (k1 = v1 and k2 > v2) or ...
+    _qb = _qb.where(eb => eb.or(orderBy.map((_, i) => eb.and(orderBy.slice(0, i + 1).map(({ column, direction: dir = 'asc' }, j) => {
+      const [lhs, rhs] = parseOperands(column, values[j])
+      if (j < i) {
+        return eb(lhs, '=', rhs)
+      }
+      return eb(lhs, (dir === 'desc') === isPrev ? '>' : '<', rhs)
+    })))))
+  }
+  for (const { column, direction: dir = 'asc' } of orderBy) {
+    // reverse order to query prev page
+    _qb = _qb.orderBy(column, isPrev ? (dir === 'asc' ? 'desc' : 'asc') : dir)
+  }
+
+  const rows = await _qb.limit(_size + 1).execute()
+  const hasMore = rows.length > _size
+  const records = rows.slice(0, _size)
+  if (isPrev) {
+    records.reverse()
+  }
+
+  const first = records[0]
+  const last = records[records.length - 1]
+  const data = {
+    size: records.length,
+    nextCursor: last && (isPrev || hasMore) ? encodeCursor('next', last, orderBy) : undefined,
+    prevCursor: first && (isPrev ? hasMore : !!cursor) ? encodeCursor('prev', first, orderBy) : undefined,
+  }
+  return {
+    ...data,
+    records,
+    convertRecords: fn => ({ ...data, records: records.map(fn) }),
+  }
+}
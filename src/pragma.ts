@@ -14,11 +14,22 @@ export async function checkIntegrity(db: KyselyInstance): Promise<boolean> {
   return rows[0].integrity_check === 'ok'
 }
 
+/**
+ * Get whether foreign keys is enabled
+ */
+export async function foreignKeys(db: KyselyInstance): Promise<boolean>
 /**
  * Control whether to enable foreign keys, **no param check**
  */
-export async function foreignKeys(db: KyselyInstance, enable: boolean): Promise<void> {
-  await executeSQL(db, `PRAGMA foreign_keys = ${enable}`)
+export async function foreignKeys(db: KyselyInstance, enable: boolean): Promise<void>
+export async function foreignKeys(db: KyselyInstance, enable?: boolean): Promise<boolean | void> {
+  if (enable !== undefined) {
+    await executeSQL(db, `PRAGMA foreign_keys = ${enable}`)
+    return
+  }
+  const { rows } = await executeSQL(db, 'PRAGMA foreign_keys')
+  // @ts-expect-error get foreign keys
+  return !!rows[0]?.foreign_keys
 }
 
 /**
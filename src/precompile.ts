@@ -5,9 +5,14 @@ import { createQueryId } from 'kysely'
 
 import { defaultSerializer } from './serialize'
 
+/**
+ * Get param placeholder by name
+ */
+export type ParamFn<T extends Record<string, any>> = <K extends keyof T & string>(name: K) => T[K]
+
 export type PrecompileBuilder<T extends Record<string, any>> = {
   build: <O>(
-    queryBuilder: (param: <K extends keyof T & string>(name: K) => T[K]) => Compilable<O>
+    queryBuilder: (param: ParamFn<T>) => Compilable<O>,
   ) => {
     [Symbol.dispose]: VoidFunction
     dispose: VoidFunction
@@ -23,6 +28,48 @@ export const defaultRootOperatorNodeProcessFn: ProcessRootOperatorNodeFn = (
 const PARAM_PREFIX = '_P@'
 const PARAM_IN_SQL = new RegExp(`"${PARAM_PREFIX}([^"]+)"`, 'g')
 
+/**
+ * Compiled query with param placeholders
+ */
+export type QueryTemplate = Pick<CompiledQuery, 'sql' | 'parameters' | 'query'>
+
+/**
+ * Build and compile query with param placeholders
+ * @param queryBuilder query builder
+ * @param processRootOperatorNode process query node, keep node kind only by default
+ */
+export function compileTemplate<T extends Record<string, any>>(
+  queryBuilder: (param: ParamFn<T>) => Compilable<any>,
+  processRootOperatorNode: ProcessRootOperatorNodeFn = defaultRootOperatorNodeProcessFn,
+): QueryTemplate {
+  const { parameters, query, sql } = queryBuilder(name => (`${PARAM_PREFIX}${name}`) as any).compile()
+  return { sql, parameters, query: processRootOperatorNode(query) }
+}
+
+/**
+ * Fill param placeholders of template
+ * @param template compiled template, see {@link compileTemplate}
+ * @param param param values
+ * @param serializer param serializer
+ */
+export function fillTemplate<O>(
+  template: QueryTemplate,
+  param: Record<string, any>,
+  serializer: (v: any) => any = defaultSerializer,
+): CompiledQuery<O> {
+  const { sql, parameters, query } = template
+  return {
+    queryId: createQueryId(),
+    query,
+    sql: sql.replace(PARAM_IN_SQL, (_, key: string) => `"${serializer(param[key])}"`),
+    parameters: parameters.map(
+      p => typeof p === 'string' && p.startsWith(PARAM_PREFIX)
+        ? serializer(param[p.substring(PARAM_PREFIX.length)])
+        : p,
+    ),
+  }
+}
+
 /**
  * Precompile query, call it with different params later, design for better performance
  * @example
@@ -52,34 +99,18 @@ export function precompile<T extends Record<string, any>>(
 ): PrecompileBuilder<T> {
   return {
     build: <O>(
-      queryBuilder: (param: <K extends keyof T & string>(name: K) => T[K]) => Compilable<O>,
+      queryBuilder: (param: ParamFn<T>) => Compilable<O>,
     ) => {
-      let _sql: string | undefined
-      let _params: any[] | undefined
-      let _query: any | undefined
+      let _template: QueryTemplate | undefined
       const dispose = (): void => {
-        _sql = _params = _query = undefined
+        _template = undefined
       }
       return {
         [Symbol.dispose]: dispose,
         dispose,
         compile: (param: T) => {
-          if (!_sql) {
-            const { parameters, query, sql } = queryBuilder(name => (`${PARAM_PREFIX}${name}`) as any).compile()
-            _sql = sql
-            _params = parameters as any
-            _query = processRootOperatorNode(query)
-          }
-          return {
-            queryId: createQueryId(),
-            query: _query,
-            sql: _sql.replace(PARAM_IN_SQL, (_, key: string) => `"${serializer(param[key])}"`),
-            parameters: _params!.map(
-              p => typeof p === 'string' && p.startsWith(PARAM_PREFIX)
-                ? serializer(param[p.substring(3)])
-                : p,
-            ),
-          }
+          _template ||= compileTemplate(queryBuilder, processRootOperatorNode)
+          return fillTemplate(_template, param, serializer)
         },
       }
     },
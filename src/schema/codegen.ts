@@ -0,0 +1,242 @@
+import type { DataTypeValue } from './column'
+import type { ParsedColumnProperty, ParsedIndex, ParsedSchema, ParsedTableInfo } from './parse-exist'
+
+import { DataType } from './column'
+import { parseColumnDataType } from './parse-exist'
+
+export type SchemaCodeOptions = {
+  /**
+   * Import path of `column` and `defineTable`
+   * @default 'kysely-sqlite-builder/schema'
+   */
+  importPath?: string
+  /**
+   * Exported schema variable name
+   * @default 'schema'
+   */
+  exportName?: string
+}
+
+const COLUMN_FN_MAP: Record<DataTypeValue, string> = {
+  [DataType.increments]: 'increments',
+  [DataType.int]: 'int',
+  [DataType.float]: 'float',
+  [DataType.string]: 'string',
+  [DataType.blob]: 'blob',
+  [DataType.object]: 'object',
+  [DataType.boolean]: 'boolean',
+  [DataType.date]: 'date',
+}
+
+const INDENT = '  '
+
+function quote(str: string): string {
+  return `'${str.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+}
+
+function isIdentifier(key: string): boolean {
+  return /^[a-z_$][\w$]*$/i.test(key)
+}
+
+/**
+ * Create key formatter, quote all keys if some key is not identifier
+ */
+function createKeyFormatter(keys: string[]): (key: string) => string {
+  const shouldQuote = !keys.every(isIdentifier)
+  return key => shouldQuote ? quote(key) : key
+}
+
+function toRaw(expression: string): string {
+  return `sql\`${expression.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``
+}
+
+function toArrayable(list: string[]): string {
+  return list.length === 1 ? quote(list[0]) : `[${list.map(quote).join(', ')}]`
+}
+
+function toObject(entries: [key: string, value: string | undefined][]): string {
+  const props = entries.filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`)
+  return props.length ? `{ ${props.join(', ')} }` : ''
+}
+
+/**
+ * Parse default value in `PRAGMA table_info` into code
+ */
+function parseDefaultValueCode(defaultTo: string, type: DataTypeValue): string {
+  if ((type === DataType.int || type === DataType.float) && /^-?\d+(?:\.\d+)?$/.test(defaultTo)) {
+    return defaultTo
+  }
+  const str = /^'([^']*)'$/.exec(defaultTo)
+  if (type === DataType.string && str) {
+    return quote(str[1])
+  }
+  return toRaw(defaultTo)
+}
+
+function parseColumnCode(name: string, column: ParsedColumnProperty, increment: string | undefined): string {
+  const { notNull, defaultTo, generated } = column
+  // declared type of hand-written table may be any string, e.g. `VARCHAR(20)`
+  const type = parseColumnDataType(column.type)
+  if (increment === name) {
+    return 'column.increments()'
+  }
+  if (generated) {
+    const options = toObject([
+      ['type', type === DataType.string ? undefined : `DataType.${COLUMN_FN_MAP[type]}`],
+      ['stored', generated.stored ? 'true' : undefined],
+    ])
+    return `column.generated(${toRaw(generated.expression)}${options ? `, ${options}` : ''})`
+  }
+  const options = toObject([
+    ['notNull', notNull ? 'true' : undefined],
+    ['defaultTo', defaultTo === null ? undefined : parseDefaultValueCode(defaultTo, type)],
+  ])
+  return `column.${COLUMN_FN_MAP[type]}(${options})`
+}
+
+function parseIndexCode(tableName: string, { name, unique, columns, where }: ParsedIndex): string {
+  let key = ''
+  let isPlain = !unique && !where
+  const columnList = columns.map((col) => {
+    const match = /^"((?:[^"]|"")+)"(?: COLLATE (\w+))?( DESC)?$/.exec(col)
+    if (!match) {
+      isPlain = false
+      return `{ expression: ${toRaw(col)} }`
+    }
+    const [, column, collate, desc] = match
+    const columnName = column.replace(/""/g, '"')
+    key += `_${columnName}`
+    if (!collate && !desc) {
+      return quote(columnName)
+    }
+    isPlain = false
+    return toObject([
+      ['column', quote(columnName)],
+      ['collate', collate && quote(collate)],
+      ['order', desc && '\'DESC\''],
+    ])
+  })
+  const isDefaultName = !columnList.some(col => col.startsWith('{ expression')) && name === `idx_${tableName}${key}`
+  if (isPlain && isDefaultName) {
+    return columnList.length === 1 ? columnList[0] : `[${columnList.join(', ')}]`
+  }
+  return toObject([
+    ['columns', columnList.length === 1 ? columnList[0] : `[${columnList.join(', ')}]`],
+    ['name', isDefaultName ? undefined : quote(name)],
+    ['unique', unique ? 'true' : undefined],
+    ['where', where ? toRaw(where) : undefined],
+  ])
+}
+
+function parseTableCode(tableName: string, table: ParsedTableInfo, tableKey: string): string[] {
+  const { columns, primary, unique, indexes, foreignKey, check, trigger, increment, withoutRowId } = table
+  const lines: string[] = []
+  const push = (depth: number, line: string): number => lines.push(INDENT.repeat(depth) + line)
+
+  // `createAt` / `updateAt` columns are generated by `defineTable`
+  let createAt: string | undefined
+  let updateAt: string | undefined
+  const isTimeColumn = ({ type, notNull, defaultTo, generated }: ParsedColumnProperty): boolean => type === 'TEXT'
+    && !notNull
+    && !generated
+    && defaultTo === 'CURRENT_TIMESTAMP'
+  for (const [name, column] of Object.entries(columns)) {
+    if (!isTimeColumn(column)) {
+      continue
+    }
+    if (!updateAt && trigger.includes(`tgr_${tableName}_${name}`)) {
+      updateAt = name
+    } else if (!createAt) {
+      createAt = name
+    }
+  }
+
+  const columnList = Object.entries(columns).filter(([name]) => name !== createAt && name !== updateAt)
+  const toColumnKey = createKeyFormatter(columnList.map(([name]) => name))
+  push(1, `${tableKey}: defineTable({`)
+  push(2, 'columns: {')
+  for (const [name, column] of columnList) {
+    push(3, `${toColumnKey(name)}: ${parseColumnCode(name, column, increment)},`)
+  }
+  push(2, '},')
+  if (primary.length && !(increment && primary.length === 1 && primary[0] === increment)) {
+    push(2, `primary: ${toArrayable(primary)},`)
+  }
+  if (unique.length) {
+    push(2, `unique: [${unique.map(toArrayable).join(', ')}],`)
+  }
+  const indexList = indexes.map(idx => parseIndexCode(tableName, idx))
+  if (indexList.some(idx => idx.startsWith('{'))) {
+    push(2, 'index: [')
+    indexList.forEach(idx => push(3, `${idx},`))
+    push(2, '],')
+  } else if (indexList.length) {
+    push(2, `index: [${indexList.join(', ')}],`)
+  }
+  if (foreignKey.length) {
+    push(2, 'foreignKey: [')
+    for (const { columns, table, references, onDelete, onUpdate } of foreignKey) {
+      push(3, `${toObject([
+        ['columns', toArrayable(columns)],
+        ['references', toObject([['table', quote(table)], ['columns', toArrayable(references)]])],
+        ['onDelete', onDelete === 'NO ACTION' ? undefined : quote(onDelete)],
+        ['onUpdate', onUpdate === 'NO ACTION' ? undefined : quote(onUpdate)],
+      ])},`)
+    }
+    push(2, '],')
+  }
+  if (check.length) {
+    push(2, `check: [${check.map(toRaw).join(', ')}],`)
+  }
+  if (createAt) {
+    push(2, `createAt: ${createAt === 'createAt' ? 'true' : quote(createAt)},`)
+  }
+  if (updateAt) {
+    push(2, `updateAt: ${updateAt === 'updateAt' ? 'true' : quote(updateAt)},`)
+  }
+  if (withoutRowId) {
+    push(2, 'withoutRowId: true,')
+  }
+  for (const name of trigger) {
+    if (name !== `tgr_${tableName}_${updateAt}`) {
+      push(2, `// unsupported trigger: ${name}`)
+    }
+  }
+  push(1, '}),')
+  return lines
+}
+
+/**
+ * Generate TypeScript module code of {@link defineTable} from parsed schema,
+ * the reverse of {@link useSchema}
+ *
+ * declared column types are mapped by affinity, see {@link parseColumnDataType}
+ * @param schema parsed schema, see {@link parseExistSchema}
+ * @param options code options
+ * @example
+ * const code = generateSchemaCode(await parseExistSchema(db))
+ * writeFileSync('schema.ts', code)
+ */
+export function generateSchemaCode(schema: ParsedSchema, options: SchemaCodeOptions = {}): string {
+  const { importPath = 'kysely-sqlite-builder/schema', exportName = 'schema' } = options
+  const toTableKey = createKeyFormatter(Object.keys(schema))
+  const body = Object.entries(schema).flatMap(([tableName, table]) => parseTableCode(tableName, table, toTableKey(tableName)))
+  const code = body.join('\n')
+
+  const imports = ['column', 'defineTable']
+  if (code.includes('DataType.')) {
+    imports.splice(1, 0, 'DataType')
+  }
+  const header = [`import { ${imports.join(', ')} } from ${quote(importPath)}`]
+  if (code.includes('sql`')) {
+    header.unshift('import { sql } from \'kysely\'', '')
+  }
+  return [
+    ...header,
+    '',
+    `export const ${exportName} = {`,
+    ...body,
+    '}',
+    '',
+  ].join('\n')
+}
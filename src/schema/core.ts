@@ -1,9 +1,19 @@
-import type { DBLogger, StatusResult } from '../types'
+import type { BackupOptions } from '../backup'
+import type { DriftMode } from '../checksum'
+import type { DBLogger, SchemaUpdater, StatusResult } from '../types'
 import type { DataTypeValue } from './column'
-import type { ParsedColumnProperty, ParsedSchema, ParsedTableInfo } from './parse-exist'
+import type {
+  ParsedColumnProperty,
+  ParsedForeignKey,
+  ParsedIndex,
+  ParsedSchema,
+  ParsedTableInfo,
+} from './parse-exist'
 import type { RestoreColumnList } from './run'
+import type { SchemaSnapshot, SnapshotTable } from './snapshot'
 import type {
   Columns,
+  ForeignKey,
   InferDatabase,
   ParsedColumnType,
   Schema,
@@ -15,15 +25,23 @@ import type { Kysely, RawBuilder, Transaction } from 'kysely'
 
 import { sql } from 'kysely'
 
-import { getOrSetDBVersion } from '../pragma'
+import { createBackup } from '../backup'
+import {
+  checksumSchema,
+  createDriftVerifier,
+  getChecksums,
+  SCHEMA_CHECKSUM_NAME,
+  setChecksums,
+} from '../checksum'
+import { foreignKeys, getOrSetDBVersion } from '../pragma'
+import { defaultSerializer } from '../serialize'
 import { executeSQL } from '../utils'
 import { DataType } from './column'
 import { TGRU } from './define'
-import { parseExistSchema } from './parse-exist'
+import { isColumnAffinityEqual, normalizeExpression, parseExistSchema } from './parse-exist'
 import {
   addColumn,
   asArray,
-  createIndex,
   createTableWithIndexAndTrigger,
   createTimeTrigger,
   dropColumn,
@@ -33,7 +51,13 @@ import {
   migrateWholeTable,
   parseColumnType,
   parseDefaultValue,
+  parseGeneratedExpression,
+  parseIndex,
+  parseTableCheckList,
+  renameColumn,
+  renameTable,
 } from './run'
+import { getSchemaSnapshot, saveSchemaSnapshot } from './snapshot'
 
 export type ColumnFallbackInfo = {
   /**
@@ -63,8 +87,120 @@ export type ColumnFallbackInfo = {
   }
 }
 
+export type DataRisk = {
+  /**
+   * Column name, `undefined` if the whole table is affected
+   */
+  column?: string
+  /**
+   * - `drop-table`: table will be dropped
+   * - `truncate`: all rows will be removed
+   * - `drop-column`: column values will be removed
+   * - `cast`: column values will be restored into column with different type, or logical type is changed
+   * - `fallback`: `NULL` values will be replaced by fallback value
+   * - `generated`: column values will be replaced by generated expression
+   */
+  reason: 'drop-table' | 'truncate' | 'drop-column' | 'cast' | 'fallback' | 'generated'
+}
+
+export type ChangedList<T> = {
+  added: T[]
+  dropped: T[]
+}
+
+export type TableDiff = {
+  /**
+   * Table name
+   */
+  table: string
+  /**
+   * - `create`: create new table
+   * - `drop`: drop exist table
+   * - `truncate`: drop exist table and create new table without restoring data
+   * - `update`: update exist table
+   */
+  type: 'create' | 'drop' | 'truncate' | 'update'
+  /**
+   * Exist table name if table is renamed
+   */
+  renamedFrom?: string
+  /**
+   * Whether the whole table will be rebuilt, see {@link migrateWholeTable}
+   */
+  rebuild: boolean
+  columns: {
+    added: Record<string, ParsedColumnProperty>
+    dropped: Record<string, ParsedColumnProperty>
+    altered: Record<string, { before: ParsedColumnProperty, after: ParsedColumnProperty }>
+    /**
+     * Renamed columns, key is new name and value is old name
+     */
+    renamed: Record<string, string>
+    /**
+     * Logical type changed columns, detected by previous schema snapshot,
+     * e.g. `DataType.string` to `DataType.date`
+     */
+    retyped: Record<string, { before: DataTypeValue, after: DataTypeValue }>
+  }
+  /**
+   * Primary key change, `undefined` if not changed
+   */
+  primary?: { before: string[], after: string[] }
+  unique: ChangedList<string[]>
+  /**
+   * Changed index is in both `added` and `dropped`
+   */
+  index: ChangedList<ParsedIndex>
+  foreignKey: ChangedList<ParsedForeignKey>
+  check: ChangedList<string>
+  trigger: ChangedList<string>
+  /**
+   * Columns restored by {@link SchemaSyncOptions.transform}
+   */
+  transformed: string[]
+  /**
+   * Data that may be lost or modified
+   */
+  risks: DataRisk[]
+  /**
+   * SQL statements to apply changes
+   */
+  sqls: string[]
+}
+
+/**
+ * Changed tables, unchanged tables are excluded
+ */
+export type SchemaDiff = TableDiff[]
+
+export type DestructiveChange = DataRisk & {
+  /**
+   * Table name
+   */
+  table: string
+}
+
+export class DestructiveChangeError extends Error {
+  constructor(public changes: DestructiveChange[]) {
+    super(`Blocked destructive changes: ${changes.map(({ table, column, reason }) => `${reason} "${table}"${column ? `."${column}"` : ''}`).join(', ')}`)
+  }
+}
+
 type ColumnFallbackFn = (data: ColumnFallbackInfo) => RawBuilder<unknown>
 
+/**
+ * Column value transform while syncing
+ *
+ * - `RawBuilder`: SQL expression to restore value from exist table, e.g. sql`datetime("time", 'unixepoch')`
+ * - function: transform value of each row in rebuilt table, return value is serialized as insert value,
+ *   `row` only contains original values of transformed columns
+ */
+export type ColumnTransform = RawBuilder<unknown> | ((value: any, row: Record<string, any>) => unknown)
+
+export type SchemaTransform<T extends Schema> = {
+  [K in StringKeys<T>]?: { [C in StringKeys<T[K]['columns']>]?: ColumnTransform }
+}
+
 export type SchemaSyncOptions<T extends Schema> = {
   /**
    * Whether to enable debug logger
@@ -98,16 +234,71 @@ export type SchemaSyncOptions<T extends Schema> = {
    * default is {@link defaultFallbackFunction}
    */
   fallback?: ColumnFallbackFn
+  /**
+   * Per-column value transforms, key is table name and column name,
+   * only applied when column is added, altered or retyped (see {@link SchemaSyncOptions.snapshot}),
+   * so that transformed data will not be transformed again in next sync
+   * @example
+   * transform: {
+   *   user: {
+   *     // `column.int()` epoch to `column.date()`
+   *     birth: sql`strftime('%Y-%m-%dT%H:%M:%fZ', "birth", 'unixepoch')`,
+   *     // comma string to `column.object()`
+   *     tags: (value: string | null) => value?.split(',') ?? [],
+   *   },
+   * }
+   */
+  transform?: SchemaTransform<T>
+  /**
+   * Guard for destructive changes, if some changes are blocked,
+   * sync will fail with {@link DestructiveChangeError} before executing any SQL
+   *
+   * - `true`: allow all changes (default)
+   * - `false`: block all changes
+   * - object: allow by {@link DataRisk.reason}, missing reason is blocked
+   * - function: return `true` to allow the change
+   *
+   * `truncate` from {@link SchemaSyncOptions.truncateIfExists} is always allowed
+   */
+  allowDestructive?: boolean | { [K in DataRisk['reason']]?: boolean } | ((change: DestructiveChange) => boolean)
+  /**
+   * Backup affected tables or whole database before executing SQLs,
+   * restore by `db.restoreBackup()`
+   */
+  backup?: BackupOptions
+  /**
+   * Store checksum of synced schema, and check whether database is altered
+   * outside of schema sync before next `db.syncDB()`
+   */
+  checkDrift?: DriftMode
+  /**
+   * Store logical schema into `__kysely_schema` table after sync,
+   * next sync will detect logical type changes by it (e.g. `DataType.string` to `DataType.date`),
+   * and {@link SchemaSyncOptions.onSuccess} will receive previous logical schema
+   */
+  snapshot?: boolean
+  /**
+   * Only generate diff without touching database, use with {@link SchemaSyncOptions.onDiff}
+   */
+  dryRun?: boolean
+  /**
+   * Trigger after diff generated, before executing SQLs
+   * @param diff changed tables
+   * @param existSchema old database schema
+   */
+  onDiff?: (diff: SchemaDiff, existSchema: ParsedSchema) => Promisable<void>
   /**
    * Trigger on sync success
    * @param db kysely instance
    * @param oldSchema old database schema
    * @param oldVersion old database version
+   * @param oldSnapshot old logical schema, `undefined` if {@link SchemaSyncOptions.snapshot} is disabled or not exists
    */
   onSuccess?: (
     db: Kysely<InferDatabase<T>>,
     oldSchema: ParsedSchema,
-    oldVersion: number | undefined
+    oldVersion: number | undefined,
+    oldSnapshot: SchemaSnapshot | undefined,
   ) => Promisable<void>
   /**
    * Trigger on sync fail
@@ -119,11 +310,36 @@ export type SchemaSyncOptions<T extends Schema> = {
   onError?: (err: unknown, sql: string | undefined, existSchema: ParsedSchema, targetSchema: T) => Promisable<void>
 }
 
+/**
+ * Data migration hooks of {@link syncTables}, run inside sync transaction
+ */
+export type SyncTablesHooks = {
+  /**
+   * Run before structural sync, return `true` if tables may be changed, then diff is regenerated
+   * @param trx transaction
+   */
+  before?: (trx: Transaction<any>) => Promise<boolean>
+  /**
+   * Run after structural sync
+   * @param trx transaction
+   */
+  after?: (trx: Transaction<any>) => Promise<void>
+}
+
+/**
+ * Sync tables to target schema in one transaction
+ * @param db kysely instance
+ * @param targetSchema target schema
+ * @param options sync options
+ * @param logger db logger
+ * @param hooks data migration hooks
+ */
 export async function syncTables<T extends Schema>(
   db: Kysely<any>,
   targetSchema: T,
   options: SchemaSyncOptions<T> = {},
   logger?: DBLogger,
+  hooks: SyncTablesHooks = {},
 ): Promise<StatusResult> {
   const {
     truncateIfExists = [],
@@ -132,7 +348,14 @@ export async function syncTables<T extends Schema>(
     excludeTablePrefix,
     onSuccess,
     onError,
+    onDiff,
+    dryRun,
+    allowDestructive = true,
+    backup,
+    checkDrift,
     fallback,
+    snapshot,
+    transform,
   } = options
 
   let oldVersion: number
@@ -142,51 +365,143 @@ export async function syncTables<T extends Schema>(
     if (skipSyncWhenSame && current === oldVersion) {
       return { ready: true }
     }
-    await getOrSetDBVersion(db, current)
   }
 
   const debug = (e: string): any => log && logger?.debug(e)
   debug('Sync tables start')
   const existSchema = await parseExistSchema(db, excludeTablePrefix)
-  let i = 0
-  let sqls: string[] = []
-  try {
-    sqls = generateSyncTableSQL<T>(
-      db,
-      existSchema,
+  const existSnapshot = snapshot ? await getSchemaSnapshot(db) : undefined
+  const diffSchema = async (trx: Kysely<any>, schema: ParsedSchema): Promise<SchemaDiff> => {
+    const diff = generateSchemaDiff<T>(
+      trx,
+      schema,
       targetSchema,
       truncateIfExists,
       debug,
       fallback,
+      existSnapshot,
+      transform,
     )
+    await onDiff?.(diff, schema)
+    checkDestructiveChange(diff, allowDestructive)
+    return diff
+  }
+  let executingSQL: string | undefined
+  let diff: SchemaDiff
+  try {
+    diff = await diffSchema(db, existSchema)
   } catch (e) {
     await onError?.(e, undefined, existSchema, targetSchema)
     debug(`Sync failed, ${e}`)
     return { ready: false, error: e }
   }
 
+  if (dryRun) {
+    debug('Dry run, skip executing SQLs')
+    return { ready: true }
+  }
+
+  const hasSQL = diff.some(d => d.sqls.length)
+  if (backup && hasSQL) {
+    try {
+      await createBackup(
+        db,
+        diff.filter(d => d.type !== 'create').map(d => d.renamedFrom || d.table),
+        backup,
+        logger,
+      )
+    } catch (e) {
+      await onError?.(e, undefined, existSchema, targetSchema)
+      debug(`Backup failed, ${e}`)
+      return { ready: false, error: e }
+    }
+  }
+
+  // `PRAGMA foreign_keys` is no-op inside transaction, so disable it before rebuilding tables
+  // see https://sqlite.org/lang_altertable.html#otheralter
+  const restoreForeignKeys = (hasSQL || !!hooks.before || !!hooks.after) && await foreignKeys(db)
+  if (restoreForeignKeys) {
+    await foreignKeys(db, false)
+  }
+
   return await db.transaction()
     .execute(async (trx) => {
-      for (; i < sqls.length; i++) {
-        await executeSQL(trx, sqls[i])
+      if (await hooks.before?.(trx)) {
+        diff = await diffSchema(trx, await parseExistSchema(trx, excludeTablePrefix))
+      }
+      for (executingSQL of diff.flatMap(d => d.sqls)) {
+        await executeSQL(trx, executingSQL)
+      }
+      executingSQL = undefined
+      await executeColumnTransform(trx, diff, targetSchema, transform)
+      if (snapshot) {
+        await saveSchemaSnapshot(trx, targetSchema)
+      }
+      await hooks.after?.(trx)
+      if (restoreForeignKeys) {
+        const { rows } = await executeSQL<{ table: string, parent: string }>(trx, 'PRAGMA foreign_key_check')
+        if (rows.length) {
+          throw new Error(`Foreign key check fail in table "${rows[0].table}", parent table is "${rows[0].parent}"`)
+        }
+      }
+      if (checkDrift) {
+        await setChecksums(trx, {
+          [SCHEMA_CHECKSUM_NAME]: checksumSchema(await parseExistSchema(trx, excludeTablePrefix)),
+        })
+      }
+      if (current) {
+        // `user_version` is rolled back with transaction
+        await getOrSetDBVersion(trx, current)
       }
     })
+    .finally(async () => restoreForeignKeys && await foreignKeys(db, true))
     .then(async () => {
-      await onSuccess?.(db, existSchema, oldVersion)
+      await onSuccess?.(db, existSchema, oldVersion, existSnapshot)
       debug('Sync success')
       return { ready: true as const }
     })
     .catch(async (e) => {
-      await onError?.(e, sqls[i], existSchema, targetSchema)
+      await onError?.(e, executingSQL, existSchema, targetSchema)
       debug(`Sync failed, ${e}`)
       return { ready: false, error: e }
     })
 }
 
+/**
+ * Create {@link SchemaUpdater.verify} that detects database changes outside of schema sync,
+ * see {@link SchemaSyncOptions.checkDrift}
+ * @param mode drift mode
+ * @param excludeTablePrefix exclude table prefix list
+ */
+export function createSchemaDriftVerifier(
+  mode: DriftMode,
+  excludeTablePrefix?: string[],
+): NonNullable<SchemaUpdater['verify']> {
+  return createDriftVerifier(mode, async (db) => {
+    const expected = (await getChecksums(db, SCHEMA_CHECKSUM_NAME))[SCHEMA_CHECKSUM_NAME]
+    const actual = checksumSchema(await parseExistSchema(db, excludeTablePrefix))
+    return expected && expected !== actual
+      ? [{ type: 'schema', name: SCHEMA_CHECKSUM_NAME, expected, actual }]
+      : []
+  })
+}
+
+const EMPTY_TABLE: ParsedTableInfo = {
+  columns: {},
+  primary: [],
+  unique: [],
+  index: [],
+  indexes: [],
+  foreignKey: [],
+  check: [],
+  trigger: [],
+}
+
 export const defaultFallbackFunction: ColumnFallbackFn = ({ target }) => target.parsedType === 'TEXT' ? sql`'0'` : sql`0`
 
 /**
- * Generates SQL statements for synchronizing a database schema.
+ * Generates per-table diff between exist schema and target schema,
+ * each {@link TableDiff} contains detected changes and SQL statements to apply them.
  *
  * @param db - The Kysely database instance.
  * @param existSchema - The existing database schema.
@@ -194,17 +509,36 @@ export const defaultFallbackFunction: ColumnFallbackFn = ({ target }) => target.
  * @param truncateIfExists - Tables to truncate if they exist, default is `[]`.
  * @param debug - Optional debug function for logging SQL generation steps.
  * @param fallback - Function to determine default values for migrated columns, default is {@link defaultFallbackFunction}
+ * @param existSnapshot - Logical schema of last sync, used to detect logical type changes.
+ * @param transform - Per-column value transforms, SQL expressions are applied in restore step.
  */
-export function generateSyncTableSQL<T extends Schema>(
+export function generateSchemaDiff<T extends Schema>(
   db: Kysely<any>,
   existSchema: ParsedSchema,
   targetSchema: T,
   truncateIfExists: SchemaSyncOptions<T>['truncateIfExists'] = [],
   debug: (msg: string) => void = () => { },
   fallback: ColumnFallbackFn = defaultFallbackFunction,
-): string[] {
+  existSnapshot?: SchemaSnapshot,
+  transform: SchemaTransform<T> = {},
+): SchemaDiff {
   const existTableMap = new Map(Object.entries(existSchema))
   const targetSchemaMap = new Map(Object.entries(targetSchema))
+  // target table name -> exist table name
+  const renamedTableMap = new Map<string, string>()
+
+  const result: SchemaDiff = []
+
+  for (const [targetTableName, targetTable] of targetSchemaMap) {
+    checkForeignKey(targetTableName, targetTable.foreignKey, targetSchemaMap)
+
+    const { renamedFrom } = targetTable
+    if (renamedFrom && !existTableMap.has(targetTableName) && existTableMap.has(renamedFrom)) {
+      existTableMap.set(targetTableName, existTableMap.get(renamedFrom)!)
+      existTableMap.delete(renamedFrom)
+      renamedTableMap.set(targetTableName, renamedFrom)
+    }
+  }
 
   const truncateTableSet = new Set(
     Array.isArray(truncateIfExists)
@@ -214,59 +548,125 @@ export function generateSyncTableSQL<T extends Schema>(
         : [],
   )
 
-  const sqls: string[] = []
-
   for (const [existTableName, existTable] of existTableMap) {
-    if (targetSchemaMap.has(existTableName)) {
-      const targetTable = targetSchemaMap.get(existTableName)!
-      if (truncateTableSet.has(existTableName)) {
-        debug(`- Update table "${existTableName}" and truncate`)
-        sqls.push(dropTable(existTableName))
-        sqls.push(...createTableWithIndexAndTrigger(db, existTableName, targetTable))
-      } else {
-        debug(`- Update table "${existTableName}"`)
-        sqls.push(...updateTable(db, existTableName, existTable, targetTable, fallback))
-      }
-    } else {
+    const targetTable = targetSchemaMap.get(existTableName)
+    const renamedFrom = renamedTableMap.get(existTableName)
+    let diff: TableDiff
+    if (!targetTable) {
       debug(`- Delete table "${existTableName}"`)
-      sqls.push(dropTable(existTableName))
+      diff = createEmptyDiff(existTableName, 'drop')
+      diff.columns.dropped = existTable.columns
+      diff.risks.push({ reason: 'drop-table' })
+      diff.sqls.push(dropTable(existTableName))
+    } else if (truncateTableSet.has(existTableName)) {
+      debug(`- Update table "${existTableName}" and truncate`)
+      diff = diffTable(db, existTableName, existTable, targetTable, fallback, 'truncate')
+    } else {
+      debug(`- Update table "${existTableName}"`)
+      diff = diffTable(
+        db,
+        existTableName,
+        existTable,
+        targetTable,
+        fallback,
+        'update',
+        existSnapshot?.[renamedFrom || existTableName]?.columns,
+        transform[existTableName as StringKeys<T>],
+      )
+    }
+
+    if (renamedFrom) {
+      debug(`- Rename table "${renamedFrom}" to "${existTableName}"`)
+      diff.renamedFrom = renamedFrom
+      diff.sqls.unshift(renameTable(renamedFrom, existTableName))
+    }
+    if (diff.sqls.length || Object.keys(diff.columns.retyped).length) {
+      result.push(diff)
     }
   }
 
   for (const [targetTableName, targetTable] of targetSchemaMap) {
     if (!existTableMap.has(targetTableName)) {
       debug(`- Create table "${targetTableName}"`)
-      sqls.push(...createTableWithIndexAndTrigger(db, targetTableName, targetTable))
+      result.push(diffTable(db, targetTableName, EMPTY_TABLE, targetTable, fallback, 'create'))
     }
   }
-  return sqls
+  return result
+}
+
+/**
+ * Generates SQL statements for synchronizing a database schema.
+ *
+ * @param db - The Kysely database instance.
+ * @param existSchema - The existing database schema.
+ * @param targetSchema - The target schema to synchronize to.
+ * @param truncateIfExists - Tables to truncate if they exist, default is `[]`.
+ * @param debug - Optional debug function for logging SQL generation steps.
+ * @param fallback - Function to determine default values for migrated columns, default is {@link defaultFallbackFunction}
+ */
+export function generateSyncTableSQL<T extends Schema>(
+  db: Kysely<any>,
+  existSchema: ParsedSchema,
+  targetSchema: T,
+  truncateIfExists: SchemaSyncOptions<T>['truncateIfExists'] = [],
+  debug: (msg: string) => void = () => { },
+  fallback: ColumnFallbackFn = defaultFallbackFunction,
+): string[] {
+  return generateSchemaDiff(db, existSchema, targetSchema, truncateIfExists, debug, fallback)
+    .flatMap(diff => diff.sqls)
 }
 
-function updateTable(
+function diffTable(
   trx: Kysely<any> | Transaction<any>,
   tableName: string,
   existTable: ParsedTableInfo,
   targetTable: Table,
-  migrateColumn: Exclude<SchemaSyncOptions<any>['fallback'], undefined>,
-): string[] {
+  migrateColumn: ColumnFallbackFn,
+  type: TableDiff['type'] = 'update',
+  existColumnTypes: SnapshotTable['columns'] = {},
+  transforms: Record<string, ColumnTransform | undefined> = {},
+): TableDiff {
   const targetColumnMap = new Map(Object.entries(targetTable.columns as Columns))
   const existColumnMap = new Map(Object.entries(existTable.columns))
   const insertColumnList: string[] = []
   const updateColumnList: RestoreColumnList = []
   const deleteColumnList: string[] = []
+  const renameColumnList: [from: string, to: string][] = []
+
+  const diff = createEmptyDiff(tableName, type)
 
   let updateTimeColumn
   let autoIncrementColumn
   let isChanged = false
 
-  for (const [name, { type, defaultTo, notNull }] of targetColumnMap) {
+  for (const [name, { renamedFrom }] of targetColumnMap) {
+    if (renamedFrom && !existColumnMap.has(name) && existColumnMap.has(renamedFrom)) {
+      existColumnMap.set(name, existColumnMap.get(renamedFrom)!)
+      existColumnMap.delete(renamedFrom)
+      renameColumnList.push([renamedFrom, name])
+      diff.columns.renamed[name] = renamedFrom
+    }
+  }
+  const sourceColumnMap = new Map(renameColumnList.map(([from, to]) => [to, from]))
+
+  for (const [name, { type, defaultTo, notNull, generated }] of targetColumnMap) {
     const existColumnInfo = existColumnMap.get(name)
+    // column name in exist table, differ from target name if renamed
+    const source = `"${sourceColumnMap.get(name) || name}"`
     const parsedTargetColumn: ColumnFallbackInfo['target'] = {
       type,
       parsedType: parseColumnType(type)[0],
       defaultTo: parseDefaultValue(trx, defaultTo) || null,
       notNull: !!notNull,
     }
+    const after: ParsedColumnProperty = {
+      type: parsedTargetColumn.parsedType,
+      notNull: parsedTargetColumn.notNull,
+      defaultTo: parsedTargetColumn.defaultTo,
+    }
+    if (generated) {
+      after.generated = { expression: parseGeneratedExpression(trx, generated), stored: !!generated.stored }
+    }
     const getFallbackValue = (): string => migrateColumn({
       column: name,
       exist: existColumnInfo,
@@ -285,23 +685,68 @@ function updateTable(
       autoIncrementColumn = name
     }
 
+    if (!existColumnInfo) {
+      diff.columns.added[name] = after
+    } else if (!isColumnEqual(existColumnInfo, after)) {
+      diff.columns.altered[name] = { before: existColumnInfo, after }
+      if (after.generated) {
+        if (!existColumnInfo.generated) {
+          diff.risks.push({ column: name, reason: 'generated' })
+        }
+      } else if (!isColumnAffinityEqual(existColumnInfo.type, after.type)) {
+        diff.risks.push({ column: name, reason: 'cast' })
+      }
+    }
+
+    const existType = existColumnInfo && existColumnTypes[sourceColumnMap.get(name) || name]?.type
+    if (existType !== undefined && existType !== type) {
+      diff.columns.retyped[name] = { before: existType, after: type }
+      if (!diff.risks.some(risk => risk.column === name && risk.reason === 'cast')) {
+        diff.risks.push({ column: name, reason: 'cast' })
+      }
+    }
+
+    if (after.generated) {
+      if (existColumnInfo ? !isColumnEqual(existColumnInfo, after) : true) {
+        // only VIRTUAL generated column can be added by `ADD COLUMN`
+        if (existColumnInfo || after.generated.stored) {
+          isChanged = true
+        } else {
+          insertColumnList.push(name)
+        }
+      }
+      // generated column cannot be restored by `INSERT`
+      continue
+    }
+
+    const transform = transforms[name]
+    if (transform && (!existColumnInfo || !isColumnEqual(existColumnInfo, after) || name in diff.columns.retyped)) {
+      diff.transformed.push(name)
+      // function transform is applied after restoring, see `executeColumnTransform`
+      if (typeof transform !== 'function') {
+        isChanged = true
+        updateColumnList.push([name, transform.compile(trx).sql])
+        continue
+      }
+    }
+
     if (existColumnInfo) {
-      if (
-        existColumnInfo.type === parsedTargetColumn.parsedType
-        && existColumnInfo.notNull === parsedTargetColumn.notNull
-        && existColumnInfo.defaultTo === parsedTargetColumn.defaultTo
-      ) {
-        updateColumnList.push([name, `"${name}"`])
+      if (isColumnEqual(existColumnInfo, after)) {
+        updateColumnList.push([name, source])
       } else {
         isChanged = true
+        // exist column already not null,
+        // or new table column is nullable,
+        // so no need to set fallback value
+        const needFallback = !existColumnInfo.notNull && parsedTargetColumn.notNull
+        if (needFallback) {
+          diff.risks.push({ column: name, reason: 'fallback' })
+        }
         updateColumnList.push([
           name,
-          // exist column already not null,
-          // or new table column is nullable,
-          // so no need to set fallback value
-          (existColumnInfo.notNull || !notNull)
-            ? `"${name}"`
-            : `IFNULL(CAST("${name}" AS ${parsedTargetColumn.parsedType}),${getFallbackValue()})`,
+          needFallback
+            ? `IFNULL(CAST(${source} AS ${parsedTargetColumn.parsedType}),${getFallbackValue()})`
+            : source,
         ])
       }
     } else {
@@ -315,68 +760,273 @@ function updateTable(
     }
   }
 
-  for (const [name] of existColumnMap) {
+  for (const [name, existColumnInfo] of existColumnMap) {
     if (!targetColumnMap.has(name)) {
       deleteColumnList.push(name)
+      diff.columns.dropped[name] = existColumnInfo
+      diff.risks.push({ column: name, reason: 'drop-column' })
+    }
+  }
+  // `DROP COLUMN` fails if column is used by generated column, rebuild instead
+  if (deleteColumnList.length && Object.values(existTable.columns).some(col => col.generated)) {
+    isChanged = true
+  }
+
+  const targetPrimary = asArray(targetTable.primary || autoIncrementColumn || [])
+  if (existTable.primary.join('|') !== targetPrimary.join('|')) {
+    diff.primary = { before: existTable.primary, after: targetPrimary }
+  }
+
+  const [insertUniqueList, deleteUniqueList] = parseChangedList(existTable.unique, targetTable.unique || [])
+  diff.unique = { added: insertUniqueList, dropped: deleteUniqueList }
+
+  diff.foreignKey = parseChangedForeignKey(existTable.foreignKey, targetTable.foreignKey)
+
+  const targetCheckList = parseTableCheckList(trx, targetTable).map(normalizeExpression)
+  diff.check = {
+    added: targetCheckList.filter(ck => !existTable.check.includes(ck)),
+    dropped: existTable.check.filter(ck => !targetCheckList.includes(ck)),
+  }
+
+  // diff indexes by name, changed index is both dropped and added
+  const existIndexMap = new Map(existTable.indexes.map(idx => [idx.name, idx]))
+  const targetIndexMap = new Map(
+    (targetTable.index || []).map((idx) => {
+      const parsed = parseIndex(trx, tableName, idx)
+      return [parsed[0].name, parsed]
+    }),
+  )
+  for (const [name, existIndex] of existIndexMap) {
+    const targetIndex = targetIndexMap.get(name)
+    if (!targetIndex || isIndexChanged(existIndex, targetIndex[0])) {
+      diff.index.dropped.push(existIndex)
+    }
+  }
+  for (const [name, [targetIndex]] of targetIndexMap) {
+    const existIndex = existIndexMap.get(name)
+    if (!existIndex || isIndexChanged(existIndex, targetIndex)) {
+      diff.index.added.push(targetIndex)
     }
   }
 
+  const existTrigger = existTable.trigger[0]
+  const targetTrigger = updateTimeColumn && `tgr_${tableName}_${updateTimeColumn}`
+  // old trigger is not on the correct column, or no exist trigger
+  if (existTrigger !== targetTrigger) {
+    if (existTrigger) {
+      diff.trigger.dropped.push(existTrigger)
+    }
+    if (targetTrigger) {
+      diff.trigger.added.push(targetTrigger)
+    }
+  }
+
+  if (type !== 'update') {
+    diff.rebuild = type === 'truncate'
+    diff.risks = diff.rebuild ? [{ reason: 'truncate' }] : []
+    diff.sqls = createTableWithIndexAndTrigger(trx, tableName, targetTable)
+    if (diff.rebuild) {
+      diff.sqls.unshift(dropTable(tableName))
+    }
+    return diff
+  }
+
   if (
     isChanged
-    || isPrimaryKeyChanged(existTable.primary, targetTable.primary || autoIncrementColumn)
-    || isUniqueChanged(existTable.unique, targetTable.unique)
-    || targetTable.withoutRowId
+    || diff.primary
+    || insertUniqueList.length > 0
+    || deleteUniqueList.length > 0
+    || diff.foreignKey.added.length > 0
+    || diff.foreignKey.dropped.length > 0
+    || diff.check.added.length > 0
+    || diff.check.dropped.length > 0
+    || !!existTable.withoutRowId !== !!targetTable.withoutRowId
   ) {
-    return migrateWholeTable(trx, tableName, updateColumnList, targetTable)
+    diff.rebuild = true
+    diff.sqls = migrateWholeTable(trx, tableName, updateColumnList, targetTable)
+    return diff
   }
 
-  const result = [
+  diff.sqls = [
+    ...diff.trigger.dropped.map(dropTrigger),
+    ...renameColumnList.map(([from, to]) => renameColumn(tableName, from, to)),
     ...insertColumnList.map(col => addColumn(trx, tableName, col, targetColumnMap.get(col)!)),
+    // drop before create to recreate changed index,
+    // and before drop column, which fails if column is still indexed
+    ...diff.index.dropped.map(idx => dropIndex(idx.name)),
     // no need to handle drop column on unique / primary key
     // because in this case, `isChanged` will be true
     ...deleteColumnList.map(col => dropColumn(tableName, col)),
+    ...diff.index.added.map(idx => targetIndexMap.get(idx.name)![1]),
   ]
 
-  const [insertIndexList, deleteIndexList] = parseChangedList(existTable.index, targetTable.index || [])
+  const triggerSQL = createTimeTrigger(tableName, updateTimeColumn, asArray(targetTable.primary)[0] || autoIncrementColumn)
+  if (diff.trigger.added.length && triggerSQL) {
+    diff.sqls.push(triggerSQL)
+  }
 
-  result.push(
-    ...insertIndexList.map(colList => createIndex(tableName, colList)),
-    ...deleteIndexList.map(colList => dropIndex(tableName, colList)),
-  )
+  return diff
+}
 
-  const existTrigger = existTable.trigger[0]
-  // old trigger is not on the correct column, or no exist trigger
-  if (existTrigger !== `tgr_${tableName}_${updateTimeColumn}`) {
-    if (existTrigger) {
-      result.splice(0, 0, dropTrigger(existTrigger))
+function createEmptyDiff(tableName: string, type: TableDiff['type']): TableDiff {
+  return {
+    table: tableName,
+    type,
+    rebuild: false,
+    columns: { added: {}, dropped: {}, altered: {}, renamed: {}, retyped: {} },
+    unique: { added: [], dropped: [] },
+    index: { added: [], dropped: [] },
+    foreignKey: { added: [], dropped: [] },
+    check: { added: [], dropped: [] },
+    trigger: { added: [], dropped: [] },
+    transformed: [],
+    risks: [],
+    sqls: [],
+  }
+}
+
+/**
+ * Apply function transforms of {@link TableDiff.transformed} columns row by row
+ * @param trx transaction
+ * @param diff schema diff
+ * @param targetSchema target schema
+ * @param transform per-column value transforms
+ */
+export async function executeColumnTransform<T extends Schema>(
+  trx: Transaction<any>,
+  diff: SchemaDiff,
+  targetSchema: T,
+  transform: SchemaTransform<T> = {},
+): Promise<void> {
+  for (const { table, transformed } of diff) {
+    const fnList = transformed
+      .map(column => [column, transform[table as StringKeys<T>]?.[column as never]] as const)
+      .filter((item): item is [string, Exclude<ColumnTransform, RawBuilder<unknown>>] => typeof item[1] === 'function')
+    if (!fnList.length) {
+      continue
     }
-    if (updateTimeColumn) {
-      result.push(createTimeTrigger(tableName, updateTimeColumn, asArray(targetTable.primary)[0] || autoIncrementColumn)!)
+    const { primary, withoutRowId } = targetSchema[table]
+    // `rowid` is not changed in this transaction
+    const keys = withoutRowId ? asArray(primary || []) : ['rowid']
+    const { rows } = await executeSQL<Record<string, any>>(
+      trx,
+      `SELECT ${[
+        ...keys.map(key => `"${key}" AS "__key_${key}"`),
+        ...fnList.map(([column]) => `"${column}"`),
+      ].join(',')} FROM "${table}"`,
+    )
+    // update time trigger should not be fired by transform
+    const { rows: triggers } = await executeSQL<{ name: string, sql: string }>(
+      trx,
+      `SELECT "name", "sql" FROM "sqlite_master" WHERE "type" = 'trigger' AND "tbl_name" = ? AND "name" LIKE 'tgr_%'`,
+      [table],
+    )
+    for (const { name } of triggers) {
+      await executeSQL(trx, dropTrigger(name))
+    }
+    const set = fnList.map(([column]) => `"${column}" = ?`).join(',')
+    const where = keys.map(key => `"${key}" = ?`).join(' AND ')
+    for (const row of rows) {
+      const keyValues = keys.map((key) => {
+        const value = row[`__key_${key}`]
+        delete row[`__key_${key}`]
+        return value
+      })
+      await executeSQL(
+        trx,
+        `UPDATE "${table}" SET ${set} WHERE ${where}`,
+        [...fnList.map(([column, fn]) => defaultSerializer(fn(row[column], row))), ...keyValues],
+      )
+    }
+    for (const { sql: triggerSQL } of triggers) {
+      await executeSQL(trx, triggerSQL)
     }
   }
+}
 
-  return result
+function isColumnEqual(exist: ParsedColumnProperty, target: ParsedColumnProperty): boolean {
+  // declared type of hand-written table may be any string, e.g. `VARCHAR(20)`
+  return isColumnAffinityEqual(exist.type, target.type)
+    && exist.notNull === target.notNull
+    && exist.defaultTo === target.defaultTo
+    && exist.generated?.expression === target.generated?.expression
+    && exist.generated?.stored === target.generated?.stored
 }
 
-function isPrimaryKeyChanged(existPK: string[], targetPK: TableProperty<any>['primary']): boolean {
-  if (!targetPK) {
-    return existPK.length > 0
+export function checkDestructiveChange(
+  diff: SchemaDiff,
+  allowDestructive: Exclude<SchemaSyncOptions<any>['allowDestructive'], undefined>,
+): void {
+  if (allowDestructive === true) {
+    return
   }
-  if (!Array.isArray(targetPK)) {
-    targetPK = [targetPK]
+  const blockedChanges: DestructiveChange[] = []
+  for (const { table, risks } of diff) {
+    for (const risk of risks) {
+      const change = { table, ...risk }
+      const isAllowed = risk.reason === 'truncate'
+        || (typeof allowDestructive === 'function'
+          ? allowDestructive(change)
+          : allowDestructive && allowDestructive[risk.reason])
+      if (!isAllowed) {
+        blockedChanges.push(change)
+      }
+    }
   }
-  if (existPK.length !== targetPK.length) {
-    return true
+  if (blockedChanges.length) {
+    throw new DestructiveChangeError(blockedChanges)
   }
-  return existPK.some((v, i) => v !== targetPK[i])
 }
 
-function isUniqueChanged(existUnique: string[][], targetUnique: TableProperty<any>['unique']): boolean {
-  if (!targetUnique) {
-    return existUnique.length > 0
+function checkForeignKey(
+  tableName: string,
+  foreignKey: ForeignKey[] | undefined,
+  targetSchemaMap: Map<string, Table>,
+): void {
+  for (const { columns, references } of foreignKey || []) {
+    const referenceTable = targetSchemaMap.get(references.table)
+    if (!referenceTable) {
+      throw new Error(`Foreign key in table "${tableName}" references unknown table "${references.table}"`)
+    }
+    const referenceColumns = asArray(references.columns)
+    if (asArray(columns).length !== referenceColumns.length) {
+      throw new Error(`Foreign key in table "${tableName}" has mismatched column count with table "${references.table}"`)
+    }
+    for (const col of referenceColumns) {
+      if (!(col in referenceTable.columns)) {
+        throw new Error(`Foreign key in table "${tableName}" references unknown column "${col}" in table "${references.table}"`)
+      }
+    }
   }
-  const [insertUniqueList, deleteUniqueList] = parseChangedList(existUnique, targetUnique)
-  return insertUniqueList.length > 0 || deleteUniqueList.length > 0
+}
+
+function hashForeignKey({ columns, table, references, onDelete, onUpdate }: ParsedForeignKey): string {
+  return `${columns.join('|')}>${table}(${references.join('|')})${onDelete}${onUpdate}`
+}
+
+function parseChangedForeignKey(
+  existFK: ParsedForeignKey[],
+  targetFK: TableProperty<any>['foreignKey'] = [],
+): TableDiff['foreignKey'] {
+  const parsedTargetFK = targetFK.map(({ columns, references, onDelete = 'NO ACTION', onUpdate = 'NO ACTION' }) => ({
+    columns: asArray(columns),
+    table: references.table,
+    references: asArray(references.columns),
+    onDelete,
+    onUpdate,
+  }))
+  const existSet = new Set(existFK.map(hashForeignKey))
+  const targetSet = new Set(parsedTargetFK.map(hashForeignKey))
+  return {
+    added: parsedTargetFK.filter(fk => !existSet.has(hashForeignKey(fk))),
+    dropped: existFK.filter(fk => !targetSet.has(hashForeignKey(fk))),
+  }
+}
+
+function isIndexChanged(existIndex: ParsedIndex, targetIndex: ParsedIndex): boolean {
+  return existIndex.unique !== targetIndex.unique
+    || existIndex.where !== targetIndex.where
+    || existIndex.columns.join(',') !== targetIndex.columns.join(',')
 }
 
 export function parseChangedList(
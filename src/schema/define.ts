@@ -1,17 +1,21 @@
 import type { DataTypeValue, TDataType } from './column'
 import type {
   BooleanColumnType,
+  ColumnCheck,
   ColumnProperty,
   Columns,
   ColumnsWithErrorInfo,
   DefaultValue,
   ExtraOptions,
+  ForeignKey,
+  GeneratedColumnType,
   InferColumnType,
   Nullable,
+  SoftDeleteMode,
   Table,
   TableProperty,
 } from './types'
-import type { Generated } from 'kysely'
+import type { Generated, RawBuilder } from 'kysely'
 
 import { DataType } from './column'
 
@@ -23,11 +27,14 @@ type DefineTableOptions<
   C extends string | boolean | null = null,
   U extends string | boolean | null = null,
   D extends string | boolean | null = null,
-> = TableProperty<T> & ExtraOptions<C, U, D> & {
+  M extends SoftDeleteMode = 'flag',
+  F extends ForeignKey<keyof T & string>[] = [],
+> = TableProperty<T> & ExtraOptions<C, U, D, M> & {
   /**
    * Table columns definition
    */
   columns: T
+  foreignKey?: F
 }
 
 type ParseFalseToNull<T extends boolean | string | null> = T extends false ? null : T
@@ -47,6 +54,8 @@ type ParseFalseToNull<T extends boolean | string | null> = T extends false ? nul
  *     manual: { type: DataType.boolean },
  *     array: column.object().$cast<string[]>(),
  *     literal: column.string().$cast<'l1' | 'l2'>(),
+ *     // or narrow type by check constraint
+ *     level: column.string({ check: { in: ['l1', 'l2'] } }),
  *     buffer: column.blob(),
  *   },
  *   primary: 'id', // optional
@@ -56,7 +65,9 @@ type ParseFalseToNull<T extends boolean | string | null> = T extends false ? nul
  *   createAt: true, // `createTime` column
  *   updateAt: true, // `updateTime` column
  *   softDelete: true, // `isDeleted` column
+ *   softDeleteMode: 'flag', // or `'timestamp'` to use nullable `deletedAt` column
  *   withoutRowId: true, // disables implicit rowId
+ *   renamedFrom: 'oldTest', // rename exist table `oldTest` while syncing
  * })
  */
 export function defineTable<
@@ -64,11 +75,13 @@ export function defineTable<
   C extends string | boolean | null = null,
   U extends string | boolean | null = null,
   D extends string | boolean | null = null,
+  M extends SoftDeleteMode = 'flag',
+  const F extends ForeignKey<keyof T & string>[] = [],
 >(
-  options: DefineTableOptions<T, C, U, D>,
-): Table<T, ParseFalseToNull<C>, ParseFalseToNull<U>, ParseFalseToNull<D>> {
+  options: DefineTableOptions<T, C, U, D, M, F>,
+): Table<T, ParseFalseToNull<C>, ParseFalseToNull<U>, ParseFalseToNull<D>, M, F> {
   const { columns, ...rest } = options
-  const { updateAt, createAt, softDelete } = rest
+  const { updateAt, createAt, softDelete, softDeleteMode } = rest
 
   if (createAt) {
     // #hack if `defaultTo === TGRC`, the column is updateAt
@@ -83,14 +96,19 @@ export function defineTable<
   }
 
   if (softDelete) {
-    // @ts-expect-error assign
-    columns[softDelete === true ? 'isDeleted' : softDelete] = { type: DataType.int, defaultTo: 0 }
+    if (softDeleteMode === 'timestamp') {
+      // @ts-expect-error assign
+      columns[softDelete === true ? 'deletedAt' : softDelete] = { type: DataType.date }
+    } else {
+      // @ts-expect-error assign
+      columns[softDelete === true ? 'isDeleted' : softDelete] = { type: DataType.int, defaultTo: 0 }
+    }
   }
 
   return {
     ...rest,
     columns: columns as unknown as ColumnsWithErrorInfo<T>,
-  } as Table<T, ParseFalseToNull<C>, ParseFalseToNull<U>, ParseFalseToNull<D>>
+  } as Table<T, ParseFalseToNull<C>, ParseFalseToNull<U>, ParseFalseToNull<D>, M, F>
 }
 
 type NormalizeType<T> =
@@ -109,6 +127,14 @@ type Options<
 > = {
   defaultTo?: NormalizeType<DefaultTo>
   notNull?: NotNull
+  /**
+   * Column check constraint, literal values in `{ in: [...] }` will narrow the column type
+   */
+  check?: ColumnCheck<T>
+  /**
+   * Previous column name, rename the exist column instead of drop and add while syncing
+   */
+  renamedFrom?: string
 }
 
 function parse(type: DataTypeValue, options?: Options): any {
@@ -145,29 +171,30 @@ export const column = {
    * Column type: INTEGER AUTO INCREMENT
    */
   increments: () => ({ type: DataType.increments }) as ColumnBuilder<TDataType['increments'], Generated<number>, Nullable>,
+  // `NoInfer` prevents widening literal type inferred from `check.in` by contextual type
   /**
    * Column type: INTEGER
    */
   int: <T extends number, DefaultTo extends DefaultValue<T>, IsNotNull extends Nullable>(
     options?: Options<T, DefaultTo, IsNotNull>,
-  ) => parse(DataType.int, options as any) as ColumnBuilder<TDataType['int'], T, IsNotNull>,
+  ) => parse(DataType.int, options as any) as ColumnBuilder<TDataType['int'], NoInfer<T>, IsNotNull>,
   /**
    * Column type: REAL
    */
   float: <T extends number, DefaultTo extends DefaultValue<T>, IsNotNull extends Nullable>(
     options?: Options<T, DefaultTo, IsNotNull>,
-  ) => parse(DataType.float, options as any) as ColumnBuilder<TDataType['float'], T, IsNotNull>,
+  ) => parse(DataType.float, options as any) as ColumnBuilder<TDataType['float'], NoInfer<T>, IsNotNull>,
   /**
    * Column type: text
    */
   string: <T extends string, DefaultTo extends DefaultValue<T>, IsNotNull extends Nullable>(
     options?: Options<T, DefaultTo, IsNotNull>,
-  ) => parse(DataType.string, options as any) as ColumnBuilder<TDataType['string'], T, IsNotNull>,
+  ) => parse(DataType.string, options as any) as ColumnBuilder<TDataType['string'], NoInfer<T>, IsNotNull>,
   /**
    * Column type: BLOB
    */
   blob: <T extends Uint8Array, IsNotNull extends Nullable>(
-    options?: { notNull?: IsNotNull },
+    options?: { notNull?: IsNotNull, renamedFrom?: string },
   ) => parse(DataType.blob, options as any) as ColumnBuilder<TDataType['blob'], T, IsNotNull>,
   /**
    * Column type: INTEGER
@@ -187,4 +214,20 @@ export const column = {
   object: <T extends object, DefaultTo extends DefaultValue<T>, IsNotNull extends Nullable>(
     options?: Options<T, DefaultTo, IsNotNull>,
   ) => parse(DataType.object, options as any) as ColumnBuilder<TDataType['object'], DefaultTo, IsNotNull>,
+  /**
+   * Generated column: `GENERATED ALWAYS AS (expression) VIRTUAL | STORED`,
+   * read-only and excluded from insert and update
+   *
+   * Column type is `TEXT` by default, setup by `options.type`
+   * @example
+   * column.generated(sql`"firstName" || ' ' || "lastName"`, { stored: true })
+   * column.generated(sql`"price" * "count"`, { type: DataType.float })
+   */
+  generated: <Type extends DataTypeValue = TDataType['string']>(
+    expression: RawBuilder<unknown>,
+    options: { type?: Type, stored?: boolean } = {},
+  ) => ({
+    type: options.type ?? DataType.string,
+    generated: { expression, stored: !!options.stored },
+  }) as ColumnProperty<Type, GeneratedColumnType<InferColumnType<Type>>, true>,
 }
@@ -1,23 +1,63 @@
 import type { DBLogger, SchemaUpdater } from '../types'
-import type { SchemaSyncOptions } from './core'
-import type { Schema } from './types'
+import type { SchemaDiff, SchemaSyncOptions } from './core'
+import type { SchemaMigration } from './migration'
+import type { ParsedSchema } from './parse-exist'
+import type { CheckForeignKey, Schema } from './types'
 import type { Kysely } from 'kysely'
 
-import { generateSyncTableSQL, syncTables } from './core'
+import { createSchemaDriftVerifier, generateSchemaDiff, syncTables } from './core'
+import { generateSchemaMigration } from './migration'
 import { parseExistSchema } from './parse-exist'
+import { getSchemaSnapshot } from './snapshot'
 
+export { generateSchemaCode, type SchemaCodeOptions } from './codegen'
 export { DataType } from './column'
-export { defaultFallbackFunction, generateSyncTableSQL } from './core'
-export type { ColumnFallbackInfo, SchemaSyncOptions } from './core'
+export {
+  defaultFallbackFunction,
+  DestructiveChangeError,
+  generateSchemaDiff,
+  generateSyncTableSQL,
+} from './core'
+export type {
+  ChangedList,
+  ColumnFallbackInfo,
+  ColumnTransform,
+  DataRisk,
+  DestructiveChange,
+  SchemaDiff,
+  SchemaSyncOptions,
+  SchemaTransform,
+  TableDiff,
+} from './core'
 export { column, defineTable } from './define'
+export {
+  createMigration,
+  createMigrationCode,
+  generateSchemaMigration,
+  type SchemaMigration,
+} from './migration'
 export { parseExistSchema } from './parse-exist'
 export { migrateWholeTable, parseColumnType, type RestoreColumnList } from './run'
+export {
+  createSchemaSnapshot,
+  getSchemaSnapshot,
+  type SchemaSnapshot,
+  type SnapshotColumn,
+  type SnapshotTable,
+} from './snapshot'
 export type {
+  ColumnCheck,
   ColumnProperty,
   Columns,
+  ForeignKey,
+  ForeignKeyAction,
+  IndexColumn,
+  IndexDescriptor,
   InferDatabase,
+  InferSoftDeleteTable,
   InferTable,
   Schema,
+  SoftDeleteMode,
   Table,
   TableProperty,
 } from './types'
@@ -28,15 +68,42 @@ export type {
  * @param options sync options
  */
 export function useSchema<T extends Schema>(
-  schema: T,
-  options: SchemaSyncOptions<T> = {},
+  schema: T & CheckForeignKey<T>,
+  options: SchemaSyncOptions<NoInfer<T>> = {},
 ): SchemaUpdater {
-  return async (db: Kysely<any>, logger?: DBLogger) => await syncTables(
+  const { checkDrift, excludeTablePrefix } = options
+  const updater: SchemaUpdater = async (db: Kysely<any>, logger?: DBLogger) => await syncTables(
     db,
     schema,
     options,
     options.log ? logger : undefined,
   )
+  if (checkDrift) {
+    updater.verify = createSchemaDriftVerifier(checkDrift, excludeTablePrefix)
+  }
+  return updater
+}
+
+/**
+ * Generate per-table diff between database and schema, without touching database
+ * @param db kysely instance
+ * @param schema table schema, see {@link defineTable}
+ * @param options sync options
+ */
+export async function generateMigrateDiff<T extends Schema>(
+  db: Kysely<any>,
+  schema: T,
+  options: Pick<SchemaSyncOptions<T>, 'excludeTablePrefix' | 'truncateIfExists' | 'fallback' | 'snapshot'> = {},
+): Promise<SchemaDiff> {
+  return generateSchemaDiff(
+    db,
+    await parseExistSchema(db, options.excludeTablePrefix),
+    schema,
+    options.truncateIfExists,
+    undefined,
+    options.fallback,
+    options.snapshot ? await getSchemaSnapshot(db) : undefined,
+  )
 }
 
 export async function generateMigrateSQL<T extends Schema>(
@@ -44,12 +111,34 @@ export async function generateMigrateSQL<T extends Schema>(
   schema: T,
   options: Pick<SchemaSyncOptions<T>, 'excludeTablePrefix' | 'truncateIfExists' | 'fallback'> = {},
 ): Promise<string[]> {
-  return generateSyncTableSQL(
+  return (await generateMigrateDiff(db, schema, options)).flatMap(diff => diff.sqls)
+}
+
+/**
+ * Generate migration between database (or previously parsed schema) and schema,
+ * use {@link createMigration} or {@link createMigrationCode} to convert it into kysely migration
+ * @param db kysely instance
+ * @param schema table schema, see {@link defineTable}
+ * @param options sync options, use `existSchema` (result of {@link parseExistSchema}) instead of parsing database
+ * @example
+ * const migration = await generateMigration(db, schema)
+ * // as migration file
+ * writeFileSync(`./migrations/${Date.now()}.ts`, createMigrationCode(migration))
+ * // or as code provider
+ * const provider = createCodeProvider({ '2024-01-01': createMigration(migration) })
+ */
+export async function generateMigration<T extends Schema>(
+  db: Kysely<any>,
+  schema: T,
+  options: Pick<SchemaSyncOptions<T>, 'excludeTablePrefix' | 'truncateIfExists' | 'fallback'> & {
+    existSchema?: ParsedSchema
+  } = {},
+): Promise<SchemaMigration> {
+  return generateSchemaMigration(
     db,
-    await parseExistSchema(db, options.excludeTablePrefix),
+    options.existSchema || await parseExistSchema(db, options.excludeTablePrefix),
     schema,
     options.truncateIfExists,
-    undefined,
     options.fallback,
   )
 }
@@ -0,0 +1,162 @@
+import type { SchemaDiff, SchemaSyncOptions } from './core'
+import type { ParsedSchema, ParsedTableInfo } from './parse-exist'
+import type { RestoreColumnList } from './run'
+import type { Columns, Schema, Table } from './types'
+import type { Kysely, Migration } from 'kysely'
+
+import { sql } from 'kysely'
+
+import { executeSQL } from '../utils'
+import { DataType } from './column'
+import { generateSchemaDiff } from './core'
+import { TGRU } from './define'
+import { parseColumnDataType } from './parse-exist'
+import { createTableWithIndexAndTrigger, dropTable, migrateWholeTable, renameTable } from './run'
+
+export type SchemaMigration = {
+  /**
+   * SQLs to migrate exist schema to target schema
+   */
+  up: string[]
+  /**
+   * Best-effort SQLs to revert target schema to exist schema,
+   * data in dropped tables or columns cannot be restored
+   */
+  down: string[]
+  /**
+   * Changed tables, see {@link generateSchemaDiff}
+   */
+  diff: SchemaDiff
+}
+
+/**
+ * Convert parsed table info back to table definition,
+ * all expressions are kept as raw sql
+ */
+function toTable(
+  tableName: string,
+  { columns, primary, unique, indexes, foreignKey, check, trigger, increment, withoutRowId }: ParsedTableInfo,
+): Table {
+  const tableColumns: Columns = {}
+  for (const [name, { type, notNull, defaultTo, generated }] of Object.entries(columns)) {
+    tableColumns[name] = {
+      type: name === increment ? DataType.increments : parseColumnDataType(type),
+      notNull,
+      // #hack restore update trigger by `TGRU`
+      defaultTo: trigger.includes(`tgr_${tableName}_${name}`)
+        ? TGRU
+        : defaultTo === null ? null : sql.raw(defaultTo),
+      generated: generated && { expression: sql.raw(generated.expression), stored: generated.stored },
+    }
+  }
+  return {
+    columns: tableColumns as Table['columns'],
+    primary: primary.length ? primary : undefined,
+    unique,
+    // parsed indexes are sorted by creation time desc
+    index: [...indexes].reverse().map(({ name, unique, columns, where }) => ({
+      columns: columns.map(col => ({ expression: sql.raw(col) })),
+      name,
+      unique,
+      where: where === null ? undefined : sql.raw(where),
+    })),
+    foreignKey: foreignKey.map(({ columns, table, references, onDelete, onUpdate }) => ({
+      columns,
+      references: { table, columns: references },
+      onDelete,
+      onUpdate,
+    })),
+    check: check.map(ck => sql.raw(ck)),
+    withoutRowId,
+  }
+}
+
+/**
+ * Generate migration SQLs between exist schema and target schema
+ *
+ * `down` is generated by rebuilding changed tables with exist table info
+ *
+ * @param db - The Kysely database instance.
+ * @param existSchema - The existing database schema or previous schema snapshot.
+ * @param targetSchema - The target schema to migrate to.
+ * @param truncateIfExists - Tables to truncate if they exist, default is `[]`.
+ * @param fallback - Function to determine default values for migrated columns.
+ */
+export function generateSchemaMigration<T extends Schema>(
+  db: Kysely<any>,
+  existSchema: ParsedSchema,
+  targetSchema: T,
+  truncateIfExists?: SchemaSyncOptions<T>['truncateIfExists'],
+  fallback?: SchemaSyncOptions<T>['fallback'],
+): SchemaMigration {
+  const diff = generateSchemaDiff(db, existSchema, targetSchema, truncateIfExists, undefined, fallback)
+  const down: string[] = []
+  for (const { table, type, renamedFrom, columns } of [...diff].reverse()) {
+    if (type === 'create') {
+      down.push(dropTable(table))
+      continue
+    }
+    const existTableName = renamedFrom || table
+    const existTable = existSchema[existTableName]
+    const existTableDefinition = toTable(existTableName, existTable)
+    if (type === 'drop') {
+      down.push(...createTableWithIndexAndTrigger(db, table, existTableDefinition))
+      continue
+    }
+    // rename back first, so that indexes and triggers are rebuilt with exist table name
+    if (renamedFrom) {
+      down.push(renameTable(table, renamedFrom))
+    }
+    // exist column name -> current column name
+    const renamedColumnMap = new Map(Object.entries(columns.renamed).map(([to, from]) => [from, to]))
+    const restoreColumnList: RestoreColumnList = type === 'truncate'
+      ? []
+      : Object.entries(existTable.columns)
+          .filter(([name, { generated }]) => !generated && !(name in columns.dropped))
+          .map(([name]) => [name, `"${renamedColumnMap.get(name) || name}"`])
+    down.push(...migrateWholeTable(db, existTableName, restoreColumnList, existTableDefinition))
+  }
+  return { up: diff.flatMap(d => d.sqls), down, diff }
+}
+
+/**
+ * Create kysely migration from SQLs, can be used in {@link createCodeProvider}
+ */
+export function createMigration({ up, down }: Pick<SchemaMigration, 'up' | 'down'>): Migration {
+  return {
+    up: async (db) => {
+      for (const s of up) {
+        await executeSQL(db, s)
+      }
+    },
+    down: async (db) => {
+      for (const s of down) {
+        await executeSQL(db, s)
+      }
+    },
+  }
+}
+
+function toFunctionCode(name: string, sqls: string[]): string[] {
+  return [
+    `export async function ${name}(db: Kysely<any>): Promise<void> {`,
+    ...sqls.map(s => `  await sql.raw(${JSON.stringify(s)}).execute(db)`),
+    '}',
+  ]
+}
+
+/**
+ * Create kysely migration module code from SQLs, can be used in `FileMigrationProvider`
+ */
+export function createMigrationCode({ up, down }: Pick<SchemaMigration, 'up' | 'down'>): string {
+  return [
+    'import type { Kysely } from \'kysely\'',
+    '',
+    'import { sql } from \'kysely\'',
+    '',
+    ...toFunctionCode('up', up),
+    '',
+    ...toFunctionCode('down', down),
+    '',
+  ].join('\n')
+}
@@ -1,14 +1,65 @@
-import type { ParsedColumnType } from './types'
+import type { DataTypeValue } from './column'
+import type { ForeignKeyAction, ParsedColumnType } from './types'
 import type { Kysely } from 'kysely'
 
 import { sql } from 'kysely'
 
+import { BACKUP_TABLE_PREFIX } from '../backup'
+import { CHECKSUM_TABLE } from '../checksum'
+import { DataType } from './column'
+import { SCHEMA_SNAPSHOT_TABLE } from './snapshot'
+
 export type ParsedSchema = Record<string, ParsedTableInfo>
 
 export type ParsedColumnProperty = {
   type: ParsedColumnType
   notNull: boolean
   defaultTo: string | null
+  /**
+   * Generated column info, only exists on generated column
+   */
+  generated?: {
+    expression: string
+    stored: boolean
+  }
+}
+
+export type ParsedForeignKey = {
+  /**
+   * Column names in current table
+   */
+  columns: string[]
+  /**
+   * Referenced table name
+   */
+  table: string
+  /**
+   * Referenced column names
+   */
+  references: string[]
+  onDelete: ForeignKeyAction
+  onUpdate: ForeignKeyAction
+}
+
+export type ParsedIndex = {
+  /**
+   * Index name
+   */
+  name: string
+  /**
+   * Whether is unique index
+   */
+  unique: boolean
+  /**
+   * Indexed columns, formatted by {@link formatIndexColumn}
+   *
+   * e.g. `"name"`, `"name" COLLATE NOCASE DESC` or `lower("name")`
+   */
+  columns: string[]
+  /**
+   * `WHERE` clause of partial index
+   */
+  where: string | null
 }
 
 export type ParsedTableInfo = {
@@ -22,9 +73,21 @@ export type ParsedTableInfo = {
    */
   unique: string[][]
   /**
-   * Index
+   * Index column names
    */
   index: string[][]
+  /**
+   * Index details, only include indexes created by `CREATE INDEX`
+   */
+  indexes: ParsedIndex[]
+  /**
+   * Foreign key constraint
+   */
+  foreignKey: ParsedForeignKey[]
+  /**
+   * Check constraint expressions
+   */
+  check: string[]
   /**
    * Trigger
    */
@@ -33,21 +96,235 @@ export type ParsedTableInfo = {
    * Auto increment column name
    */
   increment?: string
+  /**
+   * Whether table is `WITHOUT ROWID`
+   */
+  withoutRowId?: boolean
+}
+
+const QUOTE_MAP: Record<string, string> = { '\'': '\'', '"': '"', '`': '`', '[': ']' }
+
+/**
+ * Iterate chars outside quoted strings / identifiers, stop when `fn` returns `true`
+ *
+ * Return stopped index
+ */
+function scanSQL(str: string, start: number, fn: (char: string, index: number) => boolean | void): number {
+  let quote = ''
+  let i = start
+  for (; i < str.length; i++) {
+    const char = str[i]
+    if (quote) {
+      if (char === quote) {
+        quote = ''
+      }
+    } else if (QUOTE_MAP[char]) {
+      quote = QUOTE_MAP[char]
+    } else if (fn(char, i)) {
+      break
+    }
+  }
+  return i
+}
+
+/**
+ * Find index of matching `)`, `start` is the index after `(`
+ */
+function findClosingParen(str: string, start: number): number {
+  let depth = 1
+  return scanSQL(str, start, (char) => {
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      return --depth === 0
+    }
+  })
+}
+
+/**
+ * Split by top level `,`
+ */
+function splitTopLevel(str: string): string[] {
+  const result: string[] = []
+  let depth = 0
+  let last = 0
+  scanSQL(str, 0, (char, i) => {
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+    } else if (char === ',' && !depth) {
+      result.push(str.substring(last, i))
+      last = i + 1
+    }
+  })
+  result.push(str.substring(last))
+  return result
+}
+
+export type ColumnAffinity = ParsedColumnType | 'NUMERIC'
+
+/**
+ * Get affinity of declared column type,
+ * see https://sqlite.org/datatype3.html#determination_of_column_affinity
+ * @param type declared column type, e.g. `VARCHAR(20)`
+ */
+export function parseColumnAffinity(type: string): ColumnAffinity {
+  const upper = type.toUpperCase()
+  if (upper.includes('INT')) {
+    return 'INTEGER'
+  }
+  if (/CHAR|CLOB|TEXT/.test(upper)) {
+    return 'TEXT'
+  }
+  if (!upper || upper.includes('BLOB')) {
+    return 'BLOB'
+  }
+  if (/REAL|FLOA|DOUB/.test(upper)) {
+    return 'REAL'
+  }
+  return 'NUMERIC'
+}
+
+/**
+ * Get {@link DataType} of declared column type,
+ * `NUMERIC` affinity is mapped by type name, e.g. `DATETIME` to `date`, `BOOLEAN` to `boolean`,
+ * and fallback to `float`
+ * @param type declared column type, e.g. `VARCHAR(20)`
+ */
+export function parseColumnDataType(type: string): DataTypeValue {
+  const affinity = parseColumnAffinity(type)
+  switch (affinity) {
+    case 'TEXT':
+      return DataType.string
+    case 'INTEGER':
+      return DataType.int
+    case 'BLOB':
+      return DataType.blob
+    case 'REAL':
+      return DataType.float
+  }
+  const upper = type.toUpperCase()
+  if (upper.includes('BOOL')) {
+    return DataType.boolean
+  }
+  if (/DATE|TIME/.test(upper)) {
+    return DataType.date
+  }
+  return DataType.float
+}
+
+/**
+ * Check if declared column type has same affinity as target column type,
+ * `NUMERIC` affinity is treated as equal to all types except `BLOB`,
+ * so declared types like `DATETIME` or `DECIMAL` are kept
+ * @param exist declared column type
+ * @param target parsed target column type
+ */
+export function isColumnAffinityEqual(exist: string, target: ParsedColumnType): boolean {
+  const affinity = parseColumnAffinity(exist)
+  return affinity === target || (affinity === 'NUMERIC' && target !== 'BLOB')
+}
+
+export function normalizeExpression(expression: string): string {
+  return expression.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Format index column, append ` COLLATE ${collate}` if collate is not `BINARY`, append ` DESC` if `desc` is `true`
+ */
+export function formatIndexColumn(column: string, collate?: string, desc?: boolean): string {
+  const _collate = collate?.toUpperCase()
+  return `${column}${_collate && _collate !== 'BINARY' ? ` COLLATE ${_collate}` : ''}${desc ? ' DESC' : ''}`
+}
+
+/**
+ * Parse check constraint expressions from `CREATE TABLE` sql,
+ * whitespaces in expressions are collapsed
+ * @param createTableSQL sql in `sqlite_master`
+ */
+export function parseCheckConstraint(createTableSQL: string): string[] {
+  const result: string[] = []
+  scanSQL(createTableSQL, 0, (char, i) => {
+    if (char !== 'c' && char !== 'C') {
+      return
+    }
+    const match = /^CHECK\s*\(/i.exec(createTableSQL.substring(i, i + 32))
+    if (match && !/\w/.test(createTableSQL[i - 1] || '')) {
+      const start = i + match[0].length
+      result.push(normalizeExpression(createTableSQL.substring(start, findClosingParen(createTableSQL, start))))
+    }
+  })
+  return result
+}
+
+/**
+ * Parse generated column expressions from `CREATE TABLE` sql in declaration order
+ * @param createTableSQL sql in `sqlite_master`
+ */
+function parseGeneratedExpression(createTableSQL: string): string[] {
+  const result: string[] = []
+  let depth = 0
+  scanSQL(createTableSQL, 0, (char, i) => {
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+    } else if (depth === 1 && (char === 'a' || char === 'A') && !/\w/.test(createTableSQL[i - 1] || '')) {
+      // `GENERATED ALWAYS` is optional
+      const match = /^AS\s*\(/i.exec(createTableSQL.substring(i, i + 16))
+      if (match) {
+        const start = i + match[0].length
+        result.push(normalizeExpression(createTableSQL.substring(start, findClosingParen(createTableSQL, start))))
+      }
+    }
+  })
+  return result
+}
+
+/**
+ * Parse indexed column expressions and `WHERE` clause from `CREATE INDEX` sql
+ * @param createIndexSQL sql in `sqlite_master`
+ */
+function parseIndexSQL(createIndexSQL: string): [expressions: string[], where: string | null] {
+  const start = scanSQL(createIndexSQL, 0, char => char === '(') + 1
+  const end = findClosingParen(createIndexSQL, start)
+  const rest = createIndexSQL.substring(end + 1).trim().replace(/;$/, '')
+  return [
+    splitTopLevel(createIndexSQL.substring(start, end)).map(expr => normalizeExpression(
+      expr.replace(/\s+(?:ASC|DESC)\s*$/i, '').replace(/\s+COLLATE\s+\S+\s*$/i, ''),
+    )),
+    /^WHERE\s/i.test(rest) ? normalizeExpression(rest.substring(5)) : null,
+  ]
 }
 
 /**
  * parse table object
  * @param db kysely instance
  * @param tableName table name
+ * @param hasAutoIncrement whether exists AUTOINCREMENT column
+ * @param tableSql `CREATE TABLE` sql in `sqlite_master`, used to parse check constraints
  */
-export async function parseTable(db: Kysely<any>, tableName: string, hasAutoIncrement: boolean): Promise<ParsedTableInfo> {
+export async function parseTable(
+  db: Kysely<any>,
+  tableName: string,
+  hasAutoIncrement: boolean,
+  tableSql = '',
+): Promise<ParsedTableInfo> {
   const result: ParsedTableInfo = {
     columns: {},
     primary: [],
     unique: [],
     index: [],
+    indexes: [],
+    foreignKey: [],
+    check: parseCheckConstraint(tableSql),
     trigger: [],
   }
+  // table options are after the last `)`, e.g. `) WITHOUT ROWID, STRICT`
+  if (/\bWITHOUT\s+ROWID\b/i.test(tableSql.substring(tableSql.lastIndexOf(')') + 1))) {
+    result.withoutRowId = true
+  }
 
   type TableInfoPragma = {
     name: string
@@ -55,15 +332,25 @@ export async function parseTable(db: Kysely<any>, tableName: string, hasAutoIncr
     notnull: 0 | 1
     dflt_value: string | null
     pk: number
+    hidden: number
   }
-  const cols = (await sql<TableInfoPragma>`SELECT "name", "type", "notnull", "dflt_value", "pk" FROM PRAGMA_TABLE_INFO(${tableName})`.execute(db)).rows
+  // `PRAGMA_TABLE_INFO` excludes generated columns, so use `PRAGMA_TABLE_XINFO`
+  const cols = (await sql<TableInfoPragma>`SELECT "name", "type", "notnull", "dflt_value", "pk", "hidden" FROM PRAGMA_TABLE_XINFO(${tableName}) WHERE "hidden" != 1`.execute(db)).rows
+  const generatedExpressions = parseGeneratedExpression(tableSql)
 
-  for (const { dflt_value, name, notnull, pk, type } of cols) {
+  for (const { dflt_value, name, notnull, pk, type, hidden } of cols) {
     result.columns[name] = {
       type,
       notNull: !!notnull as any,
       defaultTo: dflt_value,
     }
+    // hidden is 2 when generated column is virtual, 3 when stored
+    if (hidden > 1) {
+      result.columns[name].generated = {
+        expression: generatedExpressions.shift() || '',
+        stored: hidden === 3,
+      }
+    }
     if (pk !== 0) {
       if (hasAutoIncrement && pk === 1 && type === 'INTEGER') {
         result.increment = name
@@ -74,17 +361,73 @@ export async function parseTable(db: Kysely<any>, tableName: string, hasAutoIncr
 
   type IndexInfoPragma = {
     origin: string
-    columns: string
+    columns: string | null
   }
 
   const indexes = (await sql<IndexInfoPragma>`SELECT "origin", (SELECT GROUP_CONCAT(name) FROM PRAGMA_INDEX_INFO(i.name)) as "columns" FROM PRAGMA_INDEX_LIST(${tableName}) as i WHERE "origin" != 'pk'`.execute(db)).rows
 
   for (const { columns, origin } of indexes) {
     result[origin === 'u' ? 'unique' : 'index'].push(
-      (columns as string).split(',').map(c => c.trim()),
+      // columns is null when all indexed columns are expressions
+      columns ? columns.split(',').map(c => c.trim()) : [],
     )
   }
 
+  type CreatedIndexPragma = {
+    name: string
+    unique: 0 | 1
+    sql: string
+  }
+
+  type IndexXInfoPragma = {
+    cid: number
+    name: string | null
+    desc: 0 | 1
+    coll: string
+  }
+
+  const createdIndexes = (await sql<CreatedIndexPragma>`SELECT i."name", i."unique", m."sql" FROM PRAGMA_INDEX_LIST(${tableName}) AS i JOIN "sqlite_master" AS m ON m."name" = i."name" WHERE i."origin" = 'c' ORDER BY i."seq"`.execute(db)).rows
+
+  for (const { name, unique, sql: indexSql } of createdIndexes) {
+    const indexColumns = (await sql<IndexXInfoPragma>`SELECT "cid", "name", "desc", "coll" FROM PRAGMA_INDEX_XINFO(${name}) WHERE "key" = 1 ORDER BY "seqno"`.execute(db)).rows
+    const [expressions, where] = parseIndexSQL(indexSql)
+    result.indexes.push({
+      name,
+      unique: !!unique,
+      // cid is -2 when indexed column is expression
+      columns: indexColumns.map(({ cid, name: col, desc, coll }, i) => formatIndexColumn(
+        cid === -2 ? expressions[i] : `"${col}"`,
+        coll,
+        !!desc,
+      )),
+      where,
+    })
+  }
+
+  type ForeignKeyPragma = {
+    id: number
+    table: string
+    from: string
+    to: string | null
+    on_update: ForeignKeyAction
+    on_delete: ForeignKeyAction
+  }
+
+  const foreignKeys = (await sql<ForeignKeyPragma>`SELECT "id", "table", "from", "to", "on_update", "on_delete" FROM PRAGMA_FOREIGN_KEY_LIST(${tableName}) ORDER BY "id", "seq"`.execute(db)).rows
+
+  const foreignKeyMap = new Map<number, ParsedForeignKey>()
+  for (const { id, table, from, to, on_delete, on_update } of foreignKeys) {
+    let fk = foreignKeyMap.get(id)
+    if (!fk) {
+      fk = { columns: [], table, references: [], onDelete: on_delete, onUpdate: on_update }
+      foreignKeyMap.set(id, fk)
+      result.foreignKey.push(fk)
+    }
+    fk.columns.push(from)
+    // `to` is null when referencing the primary key implicitly
+    fk.references.push(to || '')
+  }
+
   return result
 }
 
@@ -99,18 +442,19 @@ export async function parseExistSchema(
     type: 'table' | 'trigger'
     name: 1 | string
     table: string
+    sql: string
   }
 
   // when type is table, name === 1 indicates that AUTOINCREMENT column exists
   // when type is trigger, name is trigger's name
-  const extraColumns = prefix.length ? ` AND ${prefix.map(t => `"name" NOT LIKE '${t}%'`).join(' AND ')}` : ''
-  const tables = (await sql<MasterData>`SELECT "type", "tbl_name" AS "table", CASE WHEN "sql" LIKE '%PRIMARY KEY AUTOINCREMENT%' THEN 1 ELSE "name" END AS "name" FROM "sqlite_master" WHERE "type" IN ('table', 'trigger') AND "name" NOT LIKE 'SQLITE_%'${sql.raw(extraColumns)} ORDER BY "type"`.execute(db)).rows
+  const extraColumns = `${prefix.map(t => ` AND "name" NOT LIKE '${t}%'`).join('')} AND "tbl_name" NOT LIKE '${BACKUP_TABLE_PREFIX}%' AND "tbl_name" NOT IN ('${CHECKSUM_TABLE}', '${SCHEMA_SNAPSHOT_TABLE}')`
+  const tables = (await sql<MasterData>`SELECT "type", "tbl_name" AS "table", CASE WHEN "sql" LIKE '%PRIMARY KEY AUTOINCREMENT%' THEN 1 ELSE "name" END AS "name", "sql" FROM "sqlite_master" WHERE "type" IN ('table', 'trigger') AND "name" NOT LIKE 'SQLITE_%'${sql.raw(extraColumns)} ORDER BY "type"`.execute(db)).rows
 
   const tableMap: ParsedSchema = {}
-  for (const { name, table, type } of tables) {
+  for (const { name, table, type, sql: tableSql } of tables) {
     // type only can be 'table' or 'trigger'
     if (type === 'table') {
-      tableMap[table] = await parseTable(db, table, (name as number | string) === 1)
+      tableMap[table] = await parseTable(db, table, (name as number | string) === 1, tableSql)
     } else {
       tableMap[table].trigger.push(name as string)
     }
@@ -1,11 +1,21 @@
 import type { DataTypeValue } from './column'
-import type { ColumnProperty, ParsedColumnType, Table } from './types'
+import type { ParsedIndex } from './parse-exist'
+import type {
+  ColumnCheck,
+  ColumnProperty,
+  ForeignKey,
+  IndexDescriptor,
+  ParsedColumnType,
+  Table,
+  TableProperty,
+} from './types'
 import type { Arrayable } from '@subframe7536/type-utils'
 import type { Kysely, RawBuilder, Transaction } from 'kysely'
 
 import { defaultSerializer } from '../serialize'
 import { DataType } from './column'
 import { TGRC, TGRU } from './define'
+import { formatIndexColumn, normalizeExpression } from './parse-exist'
 
 export function parseColumnType(type: DataTypeValue): [type: ParsedColumnType, isAutoIncrement: boolean] {
   let dataType: ParsedColumnType
@@ -61,14 +71,31 @@ export function parseDefaultValue(trx: Kysely<any> | Transaction<any>, defaultTo
   if (defaultTo === TGRC || defaultTo === TGRU) {
     return 'CURRENT_TIMESTAMP'
   }
-  let _defaultTo = (defaultTo as RawBuilder<unknown>).isRawBuilder
-    ? (defaultTo as RawBuilder<unknown>).compile(trx).sql
-    : defaultSerializer(defaultTo)
+  if ((defaultTo as RawBuilder<unknown>).isRawBuilder) {
+    return (defaultTo as RawBuilder<unknown>).compile(trx).sql
+  }
+  let _defaultTo = defaultSerializer(defaultTo)
   _defaultTo = typeof _defaultTo === 'string' ? `'${_defaultTo}'` : _defaultTo
 
   return _defaultTo !== undefined ? String(_defaultTo) : ''
 }
 
+/**
+ * Parse generated column expression
+ */
+export function parseGeneratedExpression(
+  trx: Kysely<any> | Transaction<any>,
+  generated: ColumnProperty['generated'],
+): string {
+  return generated ? normalizeExpression(generated.expression.compile(trx).sql) : ''
+}
+
+function parseGeneratedClause(trx: Kysely<any> | Transaction<any>, generated: ColumnProperty['generated']): string {
+  return generated
+    ? ` GENERATED ALWAYS AS (${parseGeneratedExpression(trx, generated)}) ${generated.stored ? 'STORED' : 'VIRTUAL'}`
+    : ''
+}
+
 function parseDefaultValueWithPrefix(trx: Kysely<any> | Transaction<any>, defaultTo: any): string {
   const result = parseDefaultValue(trx, defaultTo)
   return result ? ` DEFAULT ${result}` : ''
@@ -86,7 +113,7 @@ export function createTableWithIndexAndTrigger(
   const { index, ...props } = table
   const result: string[] = []
   const [sql, updateColumn, triggerColumn] = createTable(trx, tableName, props)
-  result.push(sql, ...createTableIndex(tableName, index))
+  result.push(sql, ...createTableIndex(trx, tableName, index))
   const triggerSql = createTimeTrigger(tableName, updateColumn, triggerColumn)
   if (triggerSql) {
     result.push(triggerSql)
@@ -95,19 +122,65 @@ export function createTableWithIndexAndTrigger(
 }
 
 export function createTableIndex(
+  trx: Kysely<any> | Transaction<any>,
   tableName: string,
-  index: Arrayable<string>[] = [],
+  index: TableProperty<any>['index'] = [],
 ): string[] {
   return index.map((i) => {
-    const [columnListStr, key] = parseArray(i)
-    return `CREATE INDEX IF NOT EXISTS idx_${tableName + key} on "${tableName}" (${columnListStr});`
+    if (typeof i === 'string' || Array.isArray(i)) {
+      const [columnListStr, key] = parseArray(i)
+      return `CREATE INDEX IF NOT EXISTS idx_${tableName + key} on "${tableName}" (${columnListStr});`
+    }
+    return parseIndex(trx, tableName, i)[1]
+  })
+}
+
+/**
+ * Parse index to {@link ParsedIndex} and `CREATE INDEX` sql
+ */
+export function parseIndex(
+  trx: Kysely<any> | Transaction<any>,
+  tableName: string,
+  index: Arrayable<string> | IndexDescriptor,
+): [parsed: ParsedIndex, sql: string] {
+  if (typeof index === 'string' || Array.isArray(index)) {
+    const columns = asArray(index)
+    return [
+      { name: `idx_${tableName}${parseArray(columns)[1]}`, unique: false, columns: columns.map(c => `"${c}"`), where: null },
+      createIndex(tableName, columns),
+    ]
+  }
+  const { columns, name, unique, where } = index
+  let key = ''
+  const columnList = asArray(columns).map((col) => {
+    if (typeof col === 'string') {
+      key += `_${col}`
+      return `"${col}"`
+    }
+    let column
+    if ('expression' in col) {
+      if (!name) {
+        throw new Error(`Index name is required for expression index in table "${tableName}"`)
+      }
+      column = normalizeExpression(col.expression.compile(trx).sql)
+    } else {
+      key += `_${col.column}`
+      column = `"${col.column}"`
+    }
+    return formatIndexColumn(column, col.collate, col.order === 'DESC')
   })
+  const indexName = name || `idx_${tableName}${key}`
+  const whereClause = where ? normalizeExpression(where.compile(trx).sql) : null
+  return [
+    { name: indexName, unique: !!unique, columns: columnList, where: whereClause },
+    `CREATE ${unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS "${indexName}" on "${tableName}" (${columnList})${whereClause ? ` WHERE ${whereClause}` : ''};`,
+  ]
 }
 
 export function createTable(
   trx: Kysely<any> | Transaction<any>,
   tableName: string,
-  { columns, primary, unique, withoutRowId }: Omit<Table, 'index'>,
+  { columns, primary, unique, foreignKey, check, withoutRowId }: Omit<Table, 'index'>,
 ): [sql: string, updateColumn?: string, triggerColumn?: string] {
   let updateColumn
   let triggerColumn
@@ -115,7 +188,7 @@ export function createTable(
   const columnList: string[] = []
 
   for (const [columnName, columnProperty] of Object.entries(columns)) {
-    const { type, notNull, defaultTo } = columnProperty as ColumnProperty
+    const { type, notNull, defaultTo, check: columnCheck, generated } = columnProperty as ColumnProperty
 
     const [dataType, isIncrements] = parseColumnType(type)
 
@@ -134,7 +207,9 @@ export function createTable(
       if (defaultTo === TGRU) {
         updateColumn = columnName
       }
-      columnList.push(`"${columnName}" ${dataType}${notNull ? ' NOT NULL' : ''}${parseDefaultValueWithPrefix(trx, defaultTo)}`)
+      const checkExpression = columnCheck && parseColumnCheck(trx, columnName, columnCheck)
+      const checkClause = checkExpression ? ` CHECK (${checkExpression})` : ''
+      columnList.push(`"${columnName}" ${dataType}${notNull ? ' NOT NULL' : ''}${parseDefaultValueWithPrefix(trx, defaultTo)}${parseGeneratedClause(trx, generated)}${checkClause}`)
     }
   }
 
@@ -157,6 +232,18 @@ export function createTable(
     }
   }
 
+  if (foreignKey) {
+    for (const fk of foreignKey) {
+      columnList.push(parseForeignKey(fk))
+    }
+  }
+
+  if (check) {
+    for (const ck of check) {
+      columnList.push(`CHECK (${ck.compile(trx).sql})`)
+    }
+  }
+
   const rowIdClause = withoutRowId ? ' WITHOUT ROWID' : ''
 
   return [
@@ -166,6 +253,59 @@ export function createTable(
   ]
 }
 
+function parseLiteral(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replaceAll('\'', '\'\'')}'` : String(value)
+}
+
+/**
+ * Parse column check constraint to check expression
+ */
+export function parseColumnCheck(
+  trx: Kysely<any> | Transaction<any>,
+  columnName: string,
+  check: ColumnCheck,
+): string {
+  if ((check as RawBuilder<unknown>).isRawBuilder) {
+    return (check as RawBuilder<unknown>).compile(trx).sql
+  }
+  if ('in' in check) {
+    return `"${columnName}" IN (${check.in.map(parseLiteral)})`
+  }
+  const { min, max } = check as { min?: number, max?: number }
+  const conditions: string[] = []
+  if (min !== undefined) {
+    conditions.push(`"${columnName}" >= ${min}`)
+  }
+  if (max !== undefined) {
+    conditions.push(`"${columnName}" <= ${max}`)
+  }
+  return conditions.join(' AND ')
+}
+
+/**
+ * Parse all check expressions of table, including column check constraints
+ */
+export function parseTableCheckList(
+  trx: Kysely<any> | Transaction<any>,
+  { columns, check = [] }: Pick<Table, 'columns' | 'check'>,
+): string[] {
+  const result: string[] = []
+  for (const [columnName, { check: columnCheck }] of Object.entries(columns as Record<string, ColumnProperty>)) {
+    const checkExpression = columnCheck && parseColumnCheck(trx, columnName, columnCheck)
+    if (checkExpression) {
+      result.push(checkExpression)
+    }
+  }
+  for (const ck of check) {
+    result.push(ck.compile(trx).sql)
+  }
+  return result
+}
+
+export function parseForeignKey({ columns, references, onDelete, onUpdate }: ForeignKey): string {
+  return `FOREIGN KEY (${parseArray(columns)[0]}) REFERENCES "${references.table}" (${parseArray(references.columns)[0]})${onDelete ? ` ON DELETE ${onDelete}` : ''}${onUpdate ? ` ON UPDATE ${onUpdate}` : ''}`
+}
+
 export function createTimeTrigger(tableName: string, updateColumn: string | undefined, triggerColumn: string | undefined): string | undefined {
   if (!updateColumn || !triggerColumn) {
     return
@@ -178,15 +318,19 @@ export function renameTable(tableName: string, newTableName: string): string {
   return `ALTER TABLE "${tableName}" RENAME TO "${newTableName}";`
 }
 
+export function renameColumn(tableName: string, columnName: string, newColumnName: string): string {
+  return `ALTER TABLE "${tableName}" RENAME COLUMN "${columnName}" TO "${newColumnName}";`
+}
+
 export function addColumn(
   trx: Kysely<any> | Transaction<any>,
   tableName: string,
   columnName: string,
   columnProperty: ColumnProperty,
 ): string {
-  const { type, notNull, defaultTo } = columnProperty
+  const { type, notNull, defaultTo, generated } = columnProperty
   const [dataType] = parseColumnType(type)
-  return `ALTER TABLE "${tableName}" ADD COLUMN "${columnName}" ${dataType}${notNull ? ' NOT NULL' : ''}${parseDefaultValueWithPrefix(trx, defaultTo)};`
+  return `ALTER TABLE "${tableName}" ADD COLUMN "${columnName}" ${dataType}${notNull ? ' NOT NULL' : ''}${parseDefaultValueWithPrefix(trx, defaultTo)}${parseGeneratedClause(trx, generated)};`
 }
 
 export function dropColumn(tableName: string, columnName: string): string {
@@ -197,9 +341,8 @@ export function createIndex(tableName: string, columns: string[]): string {
   const [columnListStr, indexSuffix] = parseArray(columns)
   return `CREATE INDEX IF NOT EXISTS "idx_${tableName}${indexSuffix}" on "${tableName}"(${columnListStr});`
 }
-export function dropIndex(tableName: string, columns: string[]): string {
-  const [, indexSuffix] = parseArray(columns)
-  return `DROP INDEX IF EXISTS "idx_${tableName}${indexSuffix}";`
+export function dropIndex(indexName: string): string {
+  return `DROP INDEX IF EXISTS "${indexName}";`
 }
 
 export function dropTrigger(triggerName: string): string {
@@ -247,7 +390,7 @@ export function migrateWholeTable(
   result.push(renameTable(tempTableName, tableName))
 
   // 5. restore indexes and triggers
-  result.push(...createTableIndex(tableName, targetTable.index))
+  result.push(...createTableIndex(trx, tableName, targetTable.index))
   const triggerSql = createTimeTrigger(tableName, updateColumn, triggerColumn)
   if (triggerSql) {
     result.push(triggerSql)
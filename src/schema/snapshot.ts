@@ -0,0 +1,133 @@
+import type { DataTypeValue } from './column'
+import type { Columns, Schema, SoftDeleteMode } from './types'
+import type { Kysely, Transaction } from 'kysely'
+
+import { executeSQL } from '../utils'
+import { DataType } from './column'
+import { asArray, parseDefaultValue, parseGeneratedExpression } from './run'
+
+/**
+ * Table to store logical schema of last successful sync,
+ * excluded when parsing exist schema
+ */
+export const SCHEMA_SNAPSHOT_TABLE = '__kysely_schema'
+
+export type SnapshotColumn = {
+  /**
+   * {@link DataType} in schema
+   */
+  type: DataTypeValue
+  notNull: boolean
+  /**
+   * Default value in SQL
+   */
+  defaultTo: string | null
+  generated?: {
+    expression: string
+    stored: boolean
+  }
+}
+
+export type SnapshotTable = {
+  columns: Record<string, SnapshotColumn>
+  primary: string[]
+  /**
+   * Create time column name
+   */
+  createAt?: string
+  /**
+   * Update time column name
+   */
+  updateAt?: string
+  /**
+   * Soft delete column name
+   */
+  softDelete?: string
+  /**
+   * Soft delete mode, exists if `softDelete` is set
+   */
+  softDeleteMode?: SoftDeleteMode
+  withoutRowId: boolean
+}
+
+/**
+ * Logical schema, keep info that SQLite does not store, like {@link DataType}
+ */
+export type SchemaSnapshot = Record<string, SnapshotTable>
+
+function parseExtraColumnName(value: string | boolean | null | undefined, defaultName: string): string | undefined {
+  return value ? value === true ? defaultName : value : undefined
+}
+
+/**
+ * Serialize schema into snapshot, all expressions are compiled into SQL
+ * @param db kysely instance
+ * @param schema table schema, see {@link defineTable}
+ */
+export function createSchemaSnapshot(db: Kysely<any> | Transaction<any>, schema: Schema): SchemaSnapshot {
+  const snapshot: SchemaSnapshot = {}
+  for (const [tableName, table] of Object.entries(schema)) {
+    const columns: SnapshotTable['columns'] = {}
+    let increment: string | undefined
+    for (const [name, { type, notNull, defaultTo, generated }] of Object.entries(table.columns as Columns)) {
+      if (type === DataType.increments) {
+        increment = name
+      }
+      columns[name] = {
+        type,
+        notNull: !!notNull,
+        defaultTo: parseDefaultValue(db, defaultTo) || null,
+      }
+      if (generated) {
+        columns[name].generated = { expression: parseGeneratedExpression(db, generated), stored: !!generated.stored }
+      }
+    }
+    snapshot[tableName] = {
+      columns,
+      primary: asArray(table.primary || increment || []),
+      createAt: parseExtraColumnName(table.createAt, 'createAt'),
+      updateAt: parseExtraColumnName(table.updateAt, 'updateAt'),
+      softDelete: parseExtraColumnName(table.softDelete, table.softDeleteMode === 'timestamp' ? 'deletedAt' : 'isDeleted'),
+      softDeleteMode: table.softDelete ? table.softDeleteMode || 'flag' : undefined,
+      withoutRowId: !!table.withoutRowId,
+    }
+  }
+  return snapshot
+}
+
+/**
+ * Get schema snapshot of last successful sync, `undefined` if not exists
+ * @param db kysely instance
+ */
+export async function getSchemaSnapshot(db: Kysely<any> | Transaction<any>): Promise<SchemaSnapshot | undefined> {
+  const { rows: [table] } = await executeSQL(
+    db,
+    `SELECT 1 FROM "sqlite_master" WHERE "type" = 'table' AND "name" = '${SCHEMA_SNAPSHOT_TABLE}'`,
+  )
+  if (!table) {
+    return undefined
+  }
+  const { rows: [row] } = await executeSQL<{ schema: string | SchemaSnapshot }>(
+    db,
+    `SELECT "schema" FROM "${SCHEMA_SNAPSHOT_TABLE}" WHERE "id" = 1`,
+  )
+  // JSON column may already be deserialized by serialize plugin
+  return typeof row?.schema === 'string' ? JSON.parse(row.schema) : row?.schema
+}
+
+/**
+ * Save schema as snapshot, replace the previous one
+ * @param db kysely instance
+ * @param schema table schema, see {@link defineTable}
+ */
+export async function saveSchemaSnapshot(db: Kysely<any> | Transaction<any>, schema: Schema): Promise<void> {
+  await executeSQL(
+    db,
+    `CREATE TABLE IF NOT EXISTS "${SCHEMA_SNAPSHOT_TABLE}" ("id" INTEGER PRIMARY KEY, "schema" TEXT NOT NULL, "updateAt" TEXT DEFAULT CURRENT_TIMESTAMP)`,
+  )
+  await executeSQL(
+    db,
+    `INSERT OR REPLACE INTO "${SCHEMA_SNAPSHOT_TABLE}" ("id", "schema") VALUES (1, ?)`,
+    [JSON.stringify(createSchemaSnapshot(db, schema))],
+  )
+}
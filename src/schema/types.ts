@@ -4,6 +4,11 @@ import type { ColumnType, Generated, RawBuilder } from 'kysely'
 
 export type BooleanColumnType = ColumnType<0 | 1, boolean, boolean>
 
+/**
+ * Read-only column type for generated column, excluded from insert and update
+ */
+export type GeneratedColumnType<T> = T & ColumnType<T | null, never, never>
+
 export type InferColumnType<T extends DataTypeValue> =
   T extends TDataType['string'] ? string :
     T extends TDataType['boolean'] ? BooleanColumnType :
@@ -35,6 +40,15 @@ export type DefaultValue<T> = T | RawBuilder<unknown> | null
 
 export type Nullable = boolean | null
 
+/**
+ * Column check constraint
+ *
+ * - `RawBuilder`: raw check expression, e.g. sql`length("name") > 2`
+ * - `{ in: [...] }`: column value must be one of the literals
+ * - `{ min, max }`: column value must be in range (inclusive)
+ */
+export type ColumnCheck<T = unknown> = RawBuilder<unknown> | { in: readonly T[] } | { min?: number, max?: number }
+
 export type ColumnProperty<
   ColType extends DataTypeValue = DataTypeValue,
   DefaultTo extends DefaultValue<InferColumnType<ColType>> = DefaultValue<InferColumnType<ColType>>,
@@ -43,9 +57,32 @@ export type ColumnProperty<
   type: ColType
   defaultTo?: DefaultTo
   notNull?: NotNull
+  /**
+   * Column check constraint, see {@link ColumnCheck}
+   */
+  check?: ColumnCheck
+  /**
+   * Generated column, `GENERATED ALWAYS AS (expression) VIRTUAL | STORED`
+   */
+  generated?: {
+    expression: RawBuilder<unknown>
+    stored?: boolean
+  }
+  /**
+   * Previous column name, rename the exist column instead of drop and add while syncing
+   */
+  renamedFrom?: string
 }
 
-export interface ExtraOptions<Create, Update, Delete> {
+/**
+ * Soft delete mode
+ *
+ * - `'flag'`: integer column, `0` if exists and `1` if deleted
+ * - `'timestamp'`: nullable date column, `NULL` if exists and delete time if deleted
+ */
+export type SoftDeleteMode = 'flag' | 'timestamp'
+
+export interface ExtraOptions<Create, Update, Delete, DeleteMode = SoftDeleteMode> {
   /**
   /**
    * Create time column
@@ -65,10 +102,15 @@ export interface ExtraOptions<Create, Update, Delete> {
    * Soft delete column
    *
    * - If type is `undefined` or `false`, ignore
-   * - If type is `true`, column name is `isDeleted`
+   * - If type is `true`, column name is `isDeleted`, or `deletedAt` in `'timestamp'` mode
    * - If type is `string`, it will be treated as column name
    */
   softDelete?: Delete
+  /**
+   * Soft delete mode, see {@link SoftDeleteMode}
+   * @default 'flag'
+   */
+  softDeleteMode?: DeleteMode
   /**
    * Disable implicit rowId
    *
@@ -76,6 +118,72 @@ export interface ExtraOptions<Create, Update, Delete> {
    * - If type is `false`, enable implicit rowId
    */
   withoutRowId?: boolean
+  /**
+   * Previous table name, rename the exist table instead of drop and create while syncing
+   */
+  renamedFrom?: string
+}
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'SET NULL' | 'SET DEFAULT' | 'CASCADE'
+
+export type ForeignKey<Column extends string = string> = {
+  /**
+   * Column names in current table
+   */
+  columns: Arrayable<Column>
+  /**
+   * Referenced table and columns, column count must be same with {@link ForeignKey.columns}
+   */
+  references: {
+    table: string
+    columns: Arrayable<string>
+  }
+  /**
+   * `ON DELETE` action
+   * @default 'NO ACTION'
+   */
+  onDelete?: ForeignKeyAction
+  /**
+   * `ON UPDATE` action
+   * @default 'NO ACTION'
+   */
+  onUpdate?: ForeignKeyAction
+}
+
+export type IndexColumnOptions = {
+  /**
+   * Collation sequence, e.g. `'NOCASE'`
+   */
+  collate?: 'BINARY' | 'NOCASE' | 'RTRIM' | string & {}
+  /**
+   * Sort order
+   * @default 'ASC'
+   */
+  order?: 'ASC' | 'DESC'
+}
+
+export type IndexColumn<Column extends string = string> = Column
+  | IndexColumnOptions & { column: Column }
+  | IndexColumnOptions & { expression: RawBuilder<unknown> }
+
+export type IndexDescriptor<Column extends string = string> = {
+  /**
+   * Index columns, support column name, column with options or expression
+   */
+  columns: Arrayable<IndexColumn<Column>>
+  /**
+   * Index name, required if there is any expression column
+   * @default `idx_${tableName}_${columns.join('_')}`
+   */
+  name?: string
+  /**
+   * Whether to create unique index
+   */
+  unique?: boolean
+  /**
+   * `WHERE` clause for partial index
+   */
+  where?: RawBuilder<unknown>
 }
 
 export type TableProperty<
@@ -100,15 +208,34 @@ export type TableProperty<
    */
   unique?: Arrayable<keyof Cols & string>[]
   /**
-   * Column indexes, allow multiple, no unique index support
+   * Column indexes, allow multiple
    *
    * Support pattern:
    * - `['id']`: `id` as index
    * - `[['id']]`: `id` as index
    * - `['name', 'gender']`: `name` and `gender` as index
    * - `[['name', 'gender'], 'id']`: `name` / `gender` and `id` as index
+   * - `[{ columns: 'name', unique: true, where: sql\`"name" IS NOT NULL\` }]`: unique partial index
+   * - `[{ columns: [{ column: 'name', collate: 'NOCASE', order: 'DESC' }] }]`: index with collation and order
+   * - `[{ columns: { expression: sql\`lower("name")\` }, name: 'idx_lower_name' }]`: expression index
+   */
+  index?: (Arrayable<keyof Cols & string> | IndexDescriptor<keyof Cols & string>)[]
+  /**
+   * Foreign key constraints, referenced table and columns are type checked by {@link useSchema},
+   * and checked again while syncing
+   *
+   * Support pattern:
+   * - `[{ columns: 'userId', references: { table: 'user', columns: 'id' } }]`
+   * - `[{ columns: ['a', 'b'], references: { table: 'other', columns: ['x', 'y'] }, onDelete: 'CASCADE' }]`
+   */
+  foreignKey?: ForeignKey<keyof Cols & string>[]
+  /**
+   * Table check constraints, raw check expressions
+   *
+   * Support pattern:
+   * - `[sql\`"start" < "end"\`]`
    */
-  index?: Arrayable<keyof Cols & string>[]
+  check?: RawBuilder<unknown>[]
 }
 
 export type Columns = Record<string, ColumnProperty>
@@ -139,38 +266,60 @@ export type Table<
   Create extends string | true | null = null,
   Update extends string | true | null = null,
   Delete extends string | true | null = null,
+  DeleteMode extends SoftDeleteMode = SoftDeleteMode,
+  FK extends ForeignKey<keyof Cols & string>[] = ForeignKey<keyof Cols & string>[],
 > = {
   columns: ColumnsWithErrorInfo<Cols>
-} & TableProperty<Cols> & ExtraOptions<Create, Update, Delete>
+  /**
+   * Foreign key constraints, see {@link TableProperty.foreignKey}
+   */
+  foreignKey?: FK
+} & Omit<TableProperty<Cols>, 'foreignKey'> & ExtraOptions<Create, Update, Delete, DeleteMode>
 
-export type Schema = Record<string, Table<any, any, any, any>>
+// keep literal types of `foreignKey` in inline `defineTable`, see {@link CheckForeignKey}
+export type Schema = Record<string, Table<any, any, any, any, any, ForeignKey<any>[]>>
 
 type TriggerKey<A, B> =
   | (A extends true ? 'createAt' : A extends string ? A : never)
   | (B extends true ? 'updateAt' : B extends string ? B : never)
 
-type ExtraColumnsKey<
-  TriggerKey extends string,
+type IsTimestampMode<DeleteMode> = [Exclude<DeleteMode, undefined>] extends ['timestamp'] ? true : false
+
+type SoftDeleteKey<
   Delete extends string | true | undefined,
+  DeleteMode,
 > = Delete extends string
-  ? (TriggerKey | Delete)
+  ? Delete
   : Delete extends true
-    ? (TriggerKey | 'isDeleted')
-    : TriggerKey
+    ? IsTimestampMode<DeleteMode> extends true ? 'deletedAt' : 'isDeleted'
+    : never
 
 type ParseTableWithExtraColumns<
   T extends Columns,
   Create extends string | true | undefined,
   Update extends string | true | undefined,
   Delete extends string | true | undefined,
+  DeleteMode,
   Time extends TriggerKey<Create, Update> = TriggerKey<Create, Update>,
-  Extra extends ExtraColumnsKey<Time, Delete> = ExtraColumnsKey<Time, Delete>,
-> = Omit<T, Extra> & {
-  [K in Extra]: {
-    type: TDataType['increments'] // #hack to ensure Generated
-    defaultTo: Generated<K extends Time ? Date : number> | null
-    notNull: null
-  }
+  Deleted extends SoftDeleteKey<Delete, DeleteMode> = SoftDeleteKey<Delete, DeleteMode>,
+> = Omit<T, Time | Deleted> & {
+  [K in Time | Deleted]: K extends Time
+    ? {
+        type: TDataType['increments'] // #hack to ensure Generated
+        defaultTo: Generated<Date> | null
+        notNull: null
+      }
+    : IsTimestampMode<DeleteMode> extends true
+      ? {
+          type: TDataType['date']
+          defaultTo: Date
+          notNull: null
+        }
+      : {
+          type: TDataType['increments'] // #hack to ensure Generated
+          defaultTo: Generated<number> | null
+          notNull: null
+        }
 }
 
 /**
@@ -182,8 +331,9 @@ export type InferTable<
     createAt?: any
     updateAt?: any
     softDelete?: any
+    softDeleteMode?: any
   },
-  P = ParseTableWithExtraColumns<T['columns'], T['createAt'], T['updateAt'], T['softDelete']>,
+  P = ParseTableWithExtraColumns<T['columns'], T['createAt'], T['updateAt'], T['softDelete'], T['softDeleteMode']>,
 > = Prettify<{
   [K in keyof P]: P[K] extends ColumnProperty
     // if not null
@@ -214,7 +364,34 @@ export type InferDatabase<T extends Schema> = Prettify<{
     createAt?: any
     updateAt?: any
     softDelete?: any
+    softDeleteMode?: any
   }
     ? InferTable<T[K]>
     : `TypeError: some column's [defaultTo] and [type] are mismatched in table '${K & string}'`
 }>
+
+type SchemaForeignKey<T extends Schema> = {
+  [R in keyof T & string]: {
+    references: {
+      table: R
+      columns: Arrayable<keyof T[R]['columns'] & string>
+    }
+  }
+}[keyof T & string]
+
+/**
+ * Util type for checking referenced table and columns of `foreignKey` against schema,
+ * skip tables whose foreign keys are not literal types
+ */
+export type CheckForeignKey<T extends Schema> = {
+  [K in keyof T]: string extends NonNullable<T[K]['foreignKey']>[number]['references']['table']
+    ? unknown
+    : { foreignKey?: SchemaForeignKey<T>[] }
+}
+
+/**
+ * Util type for infering names of tables that have `softDelete` option
+ */
+export type InferSoftDeleteTable<T extends Schema> = {
+  [K in keyof T]: [Exclude<T[K]['softDelete'], false | null | undefined>] extends [never] ? never : K
+}[keyof T] & string
@@ -0,0 +1,248 @@
+import type { Schema, SoftDeleteMode } from './schema/types'
+import type {
+  FromNode,
+  JoinNode,
+  KyselyPlugin,
+  OperationNode,
+  PluginTransformQueryArgs,
+  PluginTransformResultArgs,
+  QueryResult,
+  RootOperationNode,
+  SelectQueryNode,
+  UnknownRow,
+  UpdateQueryNode,
+  WithNode,
+} from 'kysely'
+
+import {
+  AliasNode,
+  AndNode,
+  BinaryOperationNode,
+  ColumnNode,
+  IdentifierNode,
+  OnNode,
+  OperationNodeTransformer,
+  OperatorNode,
+  ParensNode,
+  ReferenceNode,
+  TableNode,
+  ValueNode,
+  WhereNode,
+} from 'kysely'
+
+/**
+ * Soft delete tables
+ *
+ * - `Schema`: only tables with `softDelete` option, using each table's column name
+ * - `string`: only root `from` / `update` table of query, using the same column name,
+ *   joins and subqueries are not filtered because joined tables may have no such column
+ */
+export type SoftDeleteTables = Schema | string
+
+export type SoftDeleteColumn = {
+  name: string
+  mode: SoftDeleteMode
+}
+
+/**
+ * Parse soft delete columns from schema, key is table name
+ */
+export function parseSoftDeleteColumns(schema: Schema): Record<string, SoftDeleteColumn> {
+  const result: Record<string, SoftDeleteColumn> = {}
+  for (const [table, { softDelete, softDeleteMode: mode = 'flag' }] of Object.entries(schema)) {
+    if (softDelete) {
+      result[table] = {
+        name: softDelete === true ? mode === 'timestamp' ? 'deletedAt' : 'isDeleted' : softDelete,
+        mode,
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Get referenced table name and the name to qualify columns, skip subqueries
+ */
+function parseTableReference(node: OperationNode): [table: string, ref: string] | undefined {
+  if (TableNode.is(node)) {
+    const name = node.table.identifier.name
+    return [name, name]
+  }
+  if (AliasNode.is(node) && TableNode.is(node.node)) {
+    return [node.node.table.identifier.name, IdentifierNode.is(node.alias) ? node.alias.name : node.node.table.identifier.name]
+  }
+  return undefined
+}
+
+/**
+ * Get comparable key of soft delete predicate, e.g. `"post"."isDeleted" = 0`
+ */
+function getPredicateKey(node: OperationNode): string | undefined {
+  if (!BinaryOperationNode.is(node) || !ReferenceNode.is(node.leftOperand) || !ValueNode.is(node.rightOperand)) {
+    return undefined
+  }
+  const { table, column } = node.leftOperand
+  if (!table || !ColumnNode.is(column) || !OperatorNode.is(node.operator)) {
+    return undefined
+  }
+  return `"${table.table.identifier.name}"."${column.column.name}" ${node.operator.operator} ${node.rightOperand.value}`
+}
+
+/**
+ * Check if predicate is already in `and` chain, e.g. subquery that is transformed by its own builder
+ */
+function hasPredicate(where: OperationNode, key: string): boolean {
+  if (AndNode.is(where)) {
+    return hasPredicate(where.left, key) || hasPredicate(where.right, key)
+  }
+  return getPredicateKey(where) === key
+}
+
+function combine(where: OperationNode | undefined, predicate: OperationNode): OperationNode {
+  if (!where) {
+    return predicate
+  }
+  const key = getPredicateKey(predicate)
+  if (key && hasPredicate(where, key)) {
+    return where
+  }
+  // keep precedence of `or` and raw expression
+  return AndNode.create(where.kind === 'OrNode' || where.kind === 'RawNode' ? ParensNode.create(where) : where, predicate)
+}
+
+class SoftDeleteTransformer extends OperationNodeTransformer {
+  constructor(private getColumn: (table: string) => SoftDeleteColumn | undefined) {
+    super()
+  }
+
+  protected override transformSelectQuery(node: SelectQueryNode): SelectQueryNode {
+    const result = super.transformSelectQuery(node)
+    const cteNames = this.getCTENames(result.with)
+    return {
+      ...result,
+      ...this.filterJoinsAndFrom(result.from, result.joins, result.where, cteNames),
+    }
+  }
+
+  protected override transformUpdateQuery(node: UpdateQueryNode): UpdateQueryNode {
+    const result = super.transformUpdateQuery(node)
+    const cteNames = this.getCTENames(result.with)
+    const { joins, where } = this.filterJoinsAndFrom(result.from, result.joins, result.where, cteNames)
+    const predicate = result.table && this.createPredicate(result.table, cteNames)
+    return {
+      ...result,
+      joins,
+      where: predicate ? WhereNode.create(combine(where?.where, predicate)) : where,
+    }
+  }
+
+  /**
+   * Only filter root `from` / `update` table, skip joins and subqueries
+   */
+  public transformRoot(node: RootOperationNode): RootOperationNode {
+    if (node.kind === 'SelectQueryNode') {
+      const { where } = this.filterJoinsAndFrom(node.from, undefined, node.where, this.getCTENames(node.with))
+      return { ...node, where }
+    }
+    if (node.kind === 'UpdateQueryNode') {
+      const predicate = node.table && this.createPredicate(node.table, this.getCTENames(node.with))
+      return predicate ? { ...node, where: WhereNode.create(combine(node.where?.where, predicate)) } : node
+    }
+    return node
+  }
+
+  private getCTENames(withNode: WithNode | undefined): Set<string> {
+    return new Set(withNode?.expressions.map(cte => cte.name.table.table.identifier.name))
+  }
+
+  private createPredicate(node: OperationNode, cteNames: Set<string>): OperationNode | undefined {
+    const reference = parseTableReference(node)
+    if (!reference || cteNames.has(reference[0])) {
+      return undefined
+    }
+    const column = this.getColumn(reference[0])
+    return column
+      ? BinaryOperationNode.create(
+          ReferenceNode.create(ColumnNode.create(column.name), TableNode.create(reference[1])),
+          OperatorNode.create(column.mode === 'timestamp' ? 'is' : '='),
+          ValueNode.createImmediate(column.mode === 'timestamp' ? null : 0),
+        )
+      : undefined
+  }
+
+  private filterJoinsAndFrom(
+    from: FromNode | undefined,
+    joins: readonly JoinNode[] | undefined,
+    where: WhereNode | undefined,
+    cteNames: Set<string>,
+  ): { joins: readonly JoinNode[] | undefined, where: WhereNode | undefined } {
+    let filter = where?.where
+    for (const table of from?.froms || []) {
+      const predicate = this.createPredicate(table, cteNames)
+      if (predicate) {
+        filter = combine(filter, predicate)
+      }
+    }
+    const filteredJoins = joins?.map((join) => {
+      const predicate = this.createPredicate(join.table, cteNames)
+      if (!predicate) {
+        return join
+      }
+      // filter in `on` clause to keep unmatched rows of outer join
+      if (join.on) {
+        return { ...join, on: OnNode.create(combine(join.on.on, predicate)) }
+      }
+      filter = combine(filter, predicate)
+      return join
+    })
+    return { joins: filteredJoins, where: filter ? WhereNode.create(filter) : undefined }
+  }
+}
+
+/**
+ * Filter soft deleted rows for every soft delete table referenced in
+ * `select` / `update` queries, including joins, subqueries and CTEs,
+ * or only root table if `tables` is column name, see {@link SoftDeleteTables}
+ *
+ * Columns are qualified by table name or alias,
+ * joined tables are filtered in `on` clause.
+ * Tables in `'timestamp'` mode are filtered by `is null`
+ * @example
+ * const db = new SqliteBuilder<DB>({
+ *   dialect,
+ *   plugins: [new SoftDeletePlugin(schema)],
+ * })
+ * // or only for single query
+ * await db.selectFrom('user')
+ *   .leftJoin('post', 'post.userId', 'user.id')
+ *   .selectAll()
+ *   .withPlugin(new SoftDeletePlugin(schema))
+ *   .execute()
+ * // select * from "user"
+ * // left join "post" on "post"."userId" = "user"."id" and "post"."isDeleted" = 0
+ * // where "user"."isDeleted" = 0
+ */
+export class SoftDeletePlugin implements KyselyPlugin {
+  private transformer: SoftDeleteTransformer
+  private rootOnly: boolean
+
+  /**
+   * @param tables soft delete tables, see {@link SoftDeleteTables}
+   * @param mode soft delete mode if `tables` is column name, see {@link SoftDeleteMode}
+   */
+  constructor(tables: SoftDeleteTables, mode: SoftDeleteMode = 'flag') {
+    const columns = typeof tables === 'string' ? undefined : parseSoftDeleteColumns(tables)
+    this.rootOnly = !columns
+    this.transformer = new SoftDeleteTransformer(
+      columns ? table => columns[table] : () => ({ name: tables as string, mode }),
+    )
+  }
+
+  transformQuery({ node }: PluginTransformQueryArgs): RootOperationNode {
+    return this.rootOnly ? this.transformer.transformRoot(node) : this.transformer.transformNode(node)
+  }
+
+  async transformResult({ result }: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return result
+  }
+}
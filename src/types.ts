@@ -24,7 +24,33 @@ export type StatusResult =
   | { ready: true }
   | { ready: false, error: IntegrityError | unknown }
 
-export type SchemaUpdater = (db: Kysely<any>, logger?: DBLogger) => Promise<StatusResult>
+export type SchemaUpdater = {
+  (db: Kysely<any>, logger?: DBLogger): Promise<StatusResult>
+  /**
+   * Verify database before syncing, skip syncing if not ready
+   */
+  verify?: (db: Kysely<any>, logger?: DBLogger) => Promise<StatusResult>
+}
+
+export type Drift = {
+  /**
+   * - `migration`: applied migration is modified
+   * - `schema`: database is altered outside of schema sync
+   */
+  type: 'migration' | 'schema'
+  /**
+   * Migration name, or `'schema'`
+   */
+  name: string
+  /**
+   * Stored checksum
+   */
+  expected: string
+  /**
+   * Current checksum
+   */
+  actual: string
+}
 
 export type QueryBuilderOutput<QB> = QB extends Compilable<infer O> ? O : never
 export class IntegrityError extends Error {
@@ -32,3 +58,9 @@ export class IntegrityError extends Error {
     super('DB file maybe corrupted')
   }
 }
+
+export class DriftError extends Error {
+  constructor(public drifts: Drift[]) {
+    super(`Drift detected: ${drifts.map(({ type, name }) => type === 'schema' ? 'schema is altered' : `migration "${name}" is modified`).join(', ')}`)
+  }
+}
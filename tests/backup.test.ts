@@ -0,0 +1,92 @@
+import { existsSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { describe, expect, it } from 'bun:test'
+
+import { listBackups } from '../src'
+import { column, createSchemaSnapshot, defineTable, getSchemaSnapshot, parseExistSchema, useSchema } from '../src/schema'
+import { baseTables, getDatabaseBuilder } from './utils'
+
+describe('test backup', async () => {
+  const { uint8, ...blobColumns } = baseTables.blob.columns
+  const newTables = {
+    ...baseTables,
+    blob: defineTable({ columns: { ...blobColumns, extra: column.int() }, primary: 'id' }),
+  }
+
+  it('should backup affected tables and restore', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    await db.insertInto('blob').values({ id: 1, uint8: new Uint8Array([1, 2]) }).execute()
+    await db.insertInto('test').values({ gender: true, literal: 'l1' }).execute()
+    const prevTables = await parseExistSchema(db.kysely)
+
+    const result = await db.syncDB(useSchema(newTables, { backup: { keep: 2 } }))
+    expect(result.ready).toBeTrue()
+    const backups = await listBackups(db.kysely)
+    expect(backups.map(({ id, path, tables }) => ({ id, path, tables }))).toStrictEqual([
+      { id: 1, path: null, tables: ['blob'] },
+    ])
+    expect(Object.keys(await parseExistSchema(db.kysely))).toStrictEqual(['test', 'blob'])
+
+    await db.deleteFrom('test').execute()
+    expect((await db.restoreBackup()).ready).toBeTrue()
+    expect(await parseExistSchema(db.kysely)).toStrictEqual(prevTables)
+    expect(await db.selectFrom('blob').select(['id', 'uint8']).execute()).toStrictEqual([
+      { id: 1, uint8: new Uint8Array([1, 2]) },
+    ])
+    // not affected table is not restored
+    expect(await db.selectFrom('test').selectAll().execute()).toStrictEqual([])
+  })
+
+  it('should restore schema snapshot and pass drift check after restore', async () => {
+    const db = getDatabaseBuilder()
+    const options = { snapshot: true, checkDrift: 'error' } as const
+    await db.syncDB(useSchema(baseTables, options))
+    await db.syncDB(useSchema(newTables, { ...options, backup: {} }))
+    const [{ tables }] = await listBackups(db.kysely)
+    expect(tables).toStrictEqual(['blob', '__kysely_schema'])
+
+    expect((await db.restoreBackup()).ready).toBeTrue()
+    expect(await getSchemaSnapshot(db.kysely)).toEqual(createSchemaSnapshot(db.kysely, baseTables))
+    expect((await db.syncDB(useSchema(baseTables, options))).ready).toBeTrue()
+  })
+
+  it('should keep last N backups', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    await db.syncDB(useSchema(newTables, { backup: {} }))
+    await db.syncDB(useSchema(baseTables, { backup: {} }))
+    const backups = await listBackups(db.kysely)
+    expect(backups.map(b => b.id)).toStrictEqual([2])
+    const { rows } = await db.execute<{ name: string }>(`SELECT "name" FROM "sqlite_master" WHERE "name" LIKE '__kysely_backup_%'`)
+    expect(rows).toStrictEqual([{ name: '__kysely_backup_2_blob' }])
+    expect((await db.restoreBackup(1)).ready).toBeFalse()
+  })
+
+  it('should backup whole database to file and restore', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    await db.insertInto('test').values({ gender: true, literal: 'l1' }).execute()
+    const prevTables = await parseExistSchema(db.kysely)
+
+    const getPath = (id: number): string => join(tmpdir(), `kysely-sqlite-builder-backup-${Date.now()}-${id}.db`)
+    const removeFile = (path: string): void => rmSync(path, { force: true })
+    await db.syncDB(useSchema(newTables, { backup: { target: getPath, removeFile } }))
+    const [{ path: firstPath }] = await listBackups(db.kysely)
+    expect(existsSync(firstPath!)).toBeTrue()
+
+    await db.syncDB(useSchema({ test: baseTables.test }, { backup: { target: getPath, removeFile } }))
+    const [{ path }] = await listBackups(db.kysely)
+    expect(existsSync(firstPath!)).toBeFalse()
+
+    expect((await db.restoreBackup()).ready).toBeTrue()
+    // restore to the state before second sync
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.test).toStrictEqual(prevTables.test)
+    expect(tables.blob.columns.extra).toBeDefined()
+    expect(await db.selectFrom('test').select('literal').execute()).toStrictEqual([{ literal: 'l1' }])
+    removeFile(path!)
+  })
+})
@@ -1,8 +1,11 @@
+import type { CursorPaginationResult, PreparedQuery, SoftDeleteScope } from '../src'
 import type { InferDatabase } from '../src/schema'
+import type { DB } from './utils'
 
 import { describe, expect, it } from 'bun:test'
+import { sql } from 'kysely'
 
-import { pageQuery, precompile, SoftDeleteSqliteBuilder } from '../src'
+import { cursorQuery, pageQuery, parseSortString, precompile, SoftDeletePlugin, SoftDeleteSqliteBuilder, SqliteBuilder } from '../src'
 import { getOrSetDBVersion } from '../src/pragma'
 import { column, defineTable, useSchema } from '../src/schema'
 import { baseTables, createDialect, getDatabaseBuilder } from './utils'
@@ -152,6 +155,37 @@ describe('test builder', async () => {
     `)
   })
 
+  it('should prepare query in registry', async () => {
+    const db = new SqliteBuilder<DB>({ dialect: createDialect(), preparedCacheSize: 2 })
+    await db.syncDB(useSchema(baseTables))
+    await db.insertInto('test').values([{ gender: true, literal: 'l1' }, { gender: false, literal: 'l2' }]).execute()
+
+    let buildCount = 0
+    const findByLiteral = (): PreparedQuery<{ literal: string }, { id: number }> => db
+      .prepare<{ literal: string }>('findByLiteral')
+      .build((param) => {
+        buildCount++
+        return db.selectFrom('test').select('id').where('literal', '=', param('literal'))
+      })
+
+    const prepared = findByLiteral()
+    expect(await prepared.run({ literal: 'l1' })).toStrictEqual([{ id: 1 }])
+    expect(await findByLiteral().takeFirst({ literal: 'l2' })).toStrictEqual({ id: 2 })
+    expect(await findByLiteral().takeFirst({ literal: 'l3' })).toBeUndefined()
+    expect(findByLiteral()).toBe(prepared)
+    expect(buildCount).toBe(1)
+    expect(prepared.compile({ literal: 'l1' }).sql).toBe('select "id" from "test" where "literal" = ?')
+
+    // evict least recently used
+    const findById = (): PreparedQuery<{ id: number }, { id: number }> => db
+      .prepare<{ id: number }>('findById')
+      .build(param => db.selectFrom('test').select('id').where('id', '=', param('id')))
+    expect(await findById().takeFirst({ id: 2 })).toStrictEqual({ id: 2 })
+    db.prepare<{ name: string }>('other').build(param => db.selectFrom('test').selectAll().where('name', '=', param('name')))
+    findByLiteral()
+    expect(buildCount).toBe(2)
+  })
+
   it('should soft delete', async () => {
     const softDeleteTable = defineTable({
       columns: {
@@ -202,6 +236,211 @@ describe('test builder', async () => {
     expect(updateResult?.numUpdatedRows).toBe(0n)
   })
 
+  it('should restore, force delete and query in scope', async () => {
+    const softDeleteSchema = {
+      testSoftDelete: defineTable({
+        columns: {
+          id: column.increments(),
+          name: column.string(),
+        },
+        softDelete: 'deleted',
+      }),
+    }
+
+    const db = new SoftDeleteSqliteBuilder<InferDatabase<typeof softDeleteSchema>>({
+      dialect: createDialect(),
+      deleteColumnName: 'deleted',
+    })
+    await db.syncDB(useSchema(softDeleteSchema))
+    await db.insertInto('testSoftDelete').values([{ name: 'a' }, { name: 'b' }, { name: 'c' }]).execute()
+    await db.deleteFrom('testSoftDelete').where('id', '>', 1).execute()
+
+    const getNames = async (scope: SoftDeleteScope<InferDatabase<typeof softDeleteSchema>>): Promise<string[]> => (
+      await scope.selectFrom('testSoftDelete').select('name').orderBy('id').execute()
+    ).map(row => row.name!)
+    expect(await getNames(db)).toStrictEqual(['a'])
+    expect(await getNames(db.withDeleted())).toStrictEqual(['a', 'b', 'c'])
+    expect(await getNames(db.onlyDeleted())).toStrictEqual(['b', 'c'])
+
+    const updateResult = await db.onlyDeleted().updateTable('testSoftDelete').set({ name: 'd' }).executeTakeFirst()
+    expect(updateResult.numUpdatedRows).toBe(2n)
+
+    const restoreQuery = db.restore('testSoftDelete').where('id', '=', 2)
+    expect(restoreQuery.compile().sql).toBe('update "testSoftDelete" set "deleted" = ? where "deleted" = ? and "id" = ?')
+    expect((await restoreQuery.executeTakeFirst()).numUpdatedRows).toBe(1n)
+    expect(await getNames(db)).toStrictEqual(['a', 'd'])
+
+    const deleteResult = await db.forceDeleteFrom('testSoftDelete').where('id', '=', 3).executeTakeFirst()
+    expect(deleteResult.numDeletedRows).toBe(1n)
+    expect(await getNames(db.withDeleted())).toStrictEqual(['a', 'd'])
+  })
+
+  it('should filter soft deleted rows in joins and subqueries', async () => {
+    const schema = {
+      user: defineTable({
+        columns: {
+          id: column.increments(),
+          name: column.string(),
+        },
+        softDelete: true,
+      }),
+      post: defineTable({
+        columns: {
+          id: column.increments(),
+          userId: column.int(),
+          title: column.string(),
+        },
+        softDelete: 'removed',
+      }),
+      tag: defineTable({
+        columns: {
+          postId: column.int(),
+          name: column.string(),
+        },
+      }),
+    }
+    const plugin = new SoftDeletePlugin(schema)
+    const db = new SqliteBuilder<InferDatabase<typeof schema>>({ dialect: createDialect(), plugins: [plugin] })
+    await db.syncDB(useSchema(schema))
+    await db.insertInto('user').values([{ name: 'a', isDeleted: 0 }, { name: 'b', isDeleted: 1 }]).execute()
+    await db.insertInto('post').values([
+      { userId: 1, title: 'p1', removed: 0 },
+      { userId: 1, title: 'p2', removed: 1 },
+      { userId: 2, title: 'p3', removed: 0 },
+    ]).execute()
+    await db.insertInto('tag').values([{ postId: 1, name: 't1' }, { postId: 2, name: 't2' }]).execute()
+
+    const joinQuery = db.selectFrom('user as u')
+      .leftJoin('post', 'post.userId', 'u.id')
+      .select(['u.name', 'post.title'])
+      .where(eb => eb.or([eb('u.id', '=', 1), eb('u.id', '=', 2)]))
+    expect(joinQuery.compile().sql).toBe(
+      'select "u"."name", "post"."title" from "user" as "u" left join "post" on "post"."userId" = "u"."id" and "post"."removed" = 0 where ("u"."id" = ? or "u"."id" = ?) and "u"."isDeleted" = 0',
+    )
+    expect(await joinQuery.execute()).toStrictEqual([{ name: 'a', title: 'p1' }])
+
+    const subQuery = db.kysely.with('p', qb => qb.selectFrom('post').select(['id', 'userId']))
+      .selectFrom('tag')
+      .innerJoin('p', 'p.id', 'tag.postId')
+      .select('tag.name')
+      .where('p.userId', 'in', eb => eb.selectFrom('user').select('id'))
+    expect(subQuery.compile().sql).toBe(
+      'with "p" as (select "id", "userId" from "post" where "post"."removed" = 0) select "tag"."name" from "tag" inner join "p" on "p"."id" = "tag"."postId" where "p"."userId" in (select "id" from "user" where "user"."isDeleted" = 0)',
+    )
+    expect(await subQuery.execute()).toStrictEqual([{ name: 't1' }])
+
+    const updateResult = await db.updateTable('post').set({ title: 'new' }).where('userId', '=', 1).executeTakeFirst()
+    expect(updateResult.numUpdatedRows).toBe(1n)
+
+    // soft delete builder without schema only filters root table
+    const softDeleteDB = new SoftDeleteSqliteBuilder<InferDatabase<typeof schema>>({ dialect: createDialect() })
+    await softDeleteDB.syncDB(useSchema(schema))
+    const rootQuery = softDeleteDB.selectFrom('user').innerJoin('tag', 'tag.postId', 'user.id').selectAll('user')
+    expect(rootQuery.compile().sql).toBe(
+      'select "user".* from "user" inner join "tag" on "tag"."postId" = "user"."id" where "user"."isDeleted" = 0',
+    )
+    expect(await rootQuery.execute()).toStrictEqual([])
+  })
+
+  it('should soft delete by table schema', async () => {
+    const schema = {
+      post: defineTable({
+        columns: {
+          id: column.increments(),
+          title: column.string(),
+        },
+        softDelete: 'removed',
+      }),
+      tag: defineTable({
+        columns: {
+          id: column.increments(),
+          name: column.string(),
+        },
+      }),
+    }
+    const db = new SoftDeleteSqliteBuilder({ dialect: createDialect(), schema })
+    await db.syncDB(useSchema(schema))
+    await db.insertInto('post').values([{ title: 'p1', removed: 0 }, { title: 'p2', removed: 0 }]).execute()
+    await db.insertInto('tag').values([{ name: 't1' }, { name: 't2' }]).execute()
+
+    const postDelete = db.deleteFrom('post').where('id', '=', 2)
+    expect(postDelete.compile().sql).toBe('update "post" set "removed" = ? where "removed" = ? and "id" = ?')
+    expect((await postDelete.executeTakeFirst()).numUpdatedRows).toBe(1n)
+
+    // @ts-expect-error tag has no soft delete column, `deleteFrom` is typed as real delete
+    expect(() => db.deleteFrom('tag').set({ name: 't3' })).toThrow()
+    // @ts-expect-error soft delete tables cannot be inferred from explicit database type
+    expect(() => new SoftDeleteSqliteBuilder<InferDatabase<typeof schema>>({ dialect: createDialect(), schema })).not.toThrow()
+
+    const tagDelete = db.deleteFrom('tag').where('id', '=', 2)
+    expect(tagDelete.compile().sql).toBe('delete from "tag" where "id" = ?')
+    expect((await tagDelete.executeTakeFirst()).numDeletedRows).toBe(1n)
+
+    expect(db.selectFrom('tag').selectAll().compile().sql).toBe('select * from "tag"')
+    expect(db.kysely.selectFrom('tag').selectAll().$call(db.whereExists).compile().sql).toBe('select * from "tag"')
+    expect(await db.kysely.selectFrom('post as p').select('title').$call(db.whereDeleted).execute()).toStrictEqual([{ title: 'p2' }])
+    expect(await db.selectFrom('post').select('title').execute()).toStrictEqual([{ title: 'p1' }])
+    expect(await db.onlyDeleted().selectFrom('post').select('title').execute()).toStrictEqual([{ title: 'p2' }])
+
+    // subquery from builder is already filtered by its own plugin
+    const subQuery = db.selectFrom('post').where('id', 'in', db.selectFrom('post').select('id')).select('title')
+    expect(subQuery.compile().sql).toBe(
+      'select "title" from "post" where "id" in (select "id" from "post" where "post"."removed" = 0) and "post"."removed" = 0',
+    )
+    expect(await subQuery.execute()).toStrictEqual([{ title: 'p1' }])
+    expect(await db.onlyDeleted().selectFrom('tag').select('name').execute()).toStrictEqual([])
+    expect(await db.withDeleted().selectFrom('tag').select('name').execute()).toStrictEqual([{ name: 't1' }])
+
+    await db.restore('post').where('id', '=', 2).execute()
+    expect(await db.selectFrom('post').select('title').orderBy('id').execute()).toStrictEqual([{ title: 'p1' }, { title: 'p2' }])
+    // @ts-expect-error tag has no soft delete column
+    expect(() => db.restore('tag')).toThrow('Table "tag" has no soft delete column')
+  })
+
+  it('should soft delete by timestamp', async () => {
+    const schema = {
+      post: defineTable({
+        columns: {
+          id: column.increments(),
+          title: column.string(),
+        },
+        softDelete: true,
+        softDeleteMode: 'timestamp',
+      }),
+    }
+    const db = new SoftDeleteSqliteBuilder({ dialect: createDialect(), schema })
+    await db.syncDB(useSchema(schema))
+    await db.insertInto('post').values([{ title: 'p1' }, { title: 'p2' }, { title: 'p3' }]).execute()
+
+    const deleteQuery = db.deleteFrom('post').where('id', '>', 1)
+    expect(deleteQuery.compile().sql).toBe('update "post" set "deletedAt" = CURRENT_TIMESTAMP where "deletedAt" is null and "id" > ?')
+    await deleteQuery.execute()
+    expect(db.selectFrom('post').selectAll().compile().sql).toBe('select * from "post" where "post"."deletedAt" is null')
+    expect(await db.selectFrom('post').select('title').execute()).toStrictEqual([{ title: 'p1' }])
+    expect(await db.kysely.selectFrom('post').select('title').$call(db.whereExists).execute()).toStrictEqual([{ title: 'p1' }])
+
+    const deleted = await db.onlyDeleted().selectFrom('post').select(['title', 'deletedAt']).orderBy('id').execute()
+    expect(deleted.map(row => row.title)).toStrictEqual(['p2', 'p3'])
+    const deletedAt: Date | null = deleted[0].deletedAt
+    expect(deletedAt).toBeInstanceOf(Date)
+
+    await db.restore('post').where('id', '=', 2).execute()
+    expect(await db.selectFrom('post').select('title').execute()).toHaveLength(2)
+
+    await db.kysely.updateTable('post').set({ deletedAt: new Date('2020-01-01') }).where('id', '=', 3).execute()
+    // delete again should keep the first delete time
+    const getDeletedAt = async (): Promise<unknown> => (await db.onlyDeleted().selectFrom('post').select('deletedAt').where('id', '=', 3).executeTakeFirstOrThrow()).deletedAt
+    const firstDeletedAt = await getDeletedAt()
+    expect((await db.deleteFrom('post').where('id', '=', 3).executeTakeFirst()).numUpdatedRows).toBe(0n)
+    expect(await getDeletedAt()).toStrictEqual(firstDeletedAt)
+    expect((await db.purgeDeleted('post', new Date('2019-01-01')).executeTakeFirst()).numDeletedRows).toBe(0n)
+    expect((await db.purgeDeleted('post', new Date()).executeTakeFirst()).numDeletedRows).toBe(1n)
+    expect(await db.withDeleted().selectFrom('post').select('title').orderBy('id').execute()).toStrictEqual([
+      { title: 'p1' },
+      { title: 'p2' },
+    ])
+  })
+
   it('should paginate', async () => {
     const db = getDatabaseBuilder()
     await db.syncDB(useSchema(baseTables))
@@ -247,4 +486,205 @@ describe('test builder', async () => {
     expect(page5.current).toBe(0)
     expect(page5.size).toBe(10)
   })
+
+  it('should paginate with total in one query or transaction', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    for (let i = 0; i < 8; i++) {
+      await db.insertInto('test').values({ gender: i % 2 === 0, literal: `l${i}` }).execute()
+    }
+    const qb = db.selectFrom('test').select(['id', 'literal'])
+
+    const windowPage = await pageQuery(qb, { num: 2, size: 4, queryTotal: true, totalStrategy: 'window' })
+    expect(windowPage.records.map(r => r.literal)).toStrictEqual(['l4', 'l5', 'l6', 'l7'])
+    expect(Object.keys(windowPage.records[0])).toStrictEqual(['id', 'literal'])
+    expect(windowPage.total).toBe(8)
+    expect(windowPage.pages).toBe(2)
+    expect(windowPage.hasNextPage).toBe(false)
+
+    const emptyPage = await pageQuery(qb, { num: 3, size: 4, queryTotal: true, totalStrategy: 'window' })
+    expect(emptyPage.records).toStrictEqual([])
+    expect(emptyPage.total).toBe(8)
+
+    const groupPage = await pageQuery(
+      db.selectFrom('test').select('gender').groupBy('gender'),
+      { num: 1, size: 1, queryTotal: true, totalStrategy: 'window' },
+    )
+    expect(groupPage.records).toHaveLength(1)
+    expect(groupPage.total).toBe(2)
+    expect(groupPage.pages).toBe(2)
+
+    const trxPage = await pageQuery(qb, { num: 1, size: 3, queryTotal: true, transaction: db })
+    expect(trxPage.records.map(r => r.literal)).toStrictEqual(['l0', 'l1', 'l2'])
+    expect(trxPage.total).toBe(8)
+    expect(trxPage.pages).toBe(3)
+
+    await expect(pageQuery(db.selectFrom('test').select(sql`unknown`.as('x')), { num: 1, size: 3, transaction: db }))
+      .rejects
+      .toThrow('no such column: unknown')
+  })
+
+  it('should paginate with order by specs and sort string', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    for (const literal of ['l2', null, 'l1', 'l3', null]) {
+      await db.insertInto('test').values({ gender: true, literal }).execute()
+    }
+    const qb = db.selectFrom('test').select(['id', 'literal'])
+
+    const page1 = await pageQuery(qb, {
+      num: 1,
+      size: 2,
+      orderBy: [{ column: 'literal', direction: 'desc', nulls: 'first' }, { column: 'id', direction: 'desc' }],
+    })
+    expect(page1.records).toStrictEqual([{ id: 5, literal: null }, { id: 2, literal: null }])
+    const page2 = await pageQuery(qb, { num: 2, size: 2, orderBy: [{ column: 'literal', direction: 'desc', nulls: 'first' }] })
+    expect(page2.records).toStrictEqual([{ id: 4, literal: 'l3' }, { id: 1, literal: 'l2' }])
+
+    // keep ordering of query builder
+    const expressionPage = await pageQuery(qb.orderBy('gender'), {
+      num: 1,
+      size: 3,
+      orderBy: [{ expression: sql`coalesce("literal", 'l0')` }, { column: 'id' }],
+    })
+    expect(expressionPage.records.map(r => r.id)).toStrictEqual([2, 5, 3])
+
+    const arrayPage = await pageQuery(qb, { num: 1, size: 2, desc: ['literal', 'id'] })
+    expect(arrayPage.records.map(r => r.id)).toStrictEqual([4, 1])
+
+    const sortPage = await pageQuery(qb, { num: 1, size: 2, orderBy: parseSortString('literal:asc:last, -id', ['literal', 'id']) })
+    expect(sortPage.records.map(r => r.id)).toStrictEqual([3, 1])
+
+    expect(parseSortString('-literal,id:DESC:first', ['literal', 'id'])).toStrictEqual([
+      { column: 'literal', direction: 'desc' },
+      { column: 'id', direction: 'desc', nulls: 'first' },
+    ])
+    expect(() => parseSortString('person', ['literal', 'id'])).toThrow('Invalid sort column "person"')
+    expect(() => parseSortString('id:up', ['id'])).toThrow('Invalid sort direction "up" of column "id"')
+    expect(() => parseSortString('id:asc:middle', ['id'])).toThrow('Invalid sort nulls "middle" of column "id"')
+  })
+
+  it('should paginate joins, group by, distinct and without rowid table', async () => {
+    const schema = {
+      user: defineTable({
+        columns: {
+          id: column.increments(),
+          name: column.string(),
+        },
+      }),
+      post: defineTable({
+        columns: {
+          title: column.string({ notNull: true }),
+          userId: column.int(),
+        },
+        primary: 'title',
+        withoutRowId: true,
+      }),
+    }
+    const db = new SqliteBuilder<InferDatabase<typeof schema>>({ dialect: createDialect() })
+    await db.syncDB(useSchema(schema))
+    await db.insertInto('user').values([{ name: 'a' }, { name: 'b' }, { name: 'c' }]).execute()
+    await db.insertInto('post').values([
+      { title: 'p1', userId: 1 },
+      { title: 'p2', userId: 1 },
+      { title: 'p3', userId: 2 },
+      { title: 'p4', userId: 3 },
+      { title: 'p5', userId: 3 },
+    ]).execute()
+
+    const joinPage = await pageQuery(
+      db.selectFrom('user as u').innerJoin('post', 'post.userId', 'u.id').select(['u.name', 'post.title']).orderBy('post.title'),
+      { num: 2, size: 2, queryTotal: true },
+    )
+    expect(joinPage.records).toStrictEqual([{ name: 'b', title: 'p3' }, { name: 'c', title: 'p4' }])
+    expect(joinPage.total).toBe(5)
+
+    const groupPage = await pageQuery(
+      db.selectFrom('post').select(['userId', eb => eb.fn.countAll<number>().as('count')]).groupBy('userId').orderBy('userId'),
+      { num: 1, size: 2, queryTotal: true },
+    )
+    expect(groupPage.records).toStrictEqual([{ userId: 1, count: 2 }, { userId: 2, count: 1 }])
+    expect(groupPage.total).toBe(3)
+    expect(groupPage.hasNextPage).toBe(true)
+
+    const distinctPage = await pageQuery(
+      db.selectFrom('post').select('userId').distinct().orderBy('userId'),
+      { num: 2, size: 2, queryTotal: true },
+    )
+    expect(distinctPage.records).toStrictEqual([{ userId: 3 }])
+    expect(distinctPage.total).toBe(3)
+
+    const withoutRowIdPage = await pageQuery(
+      db.selectFrom('post').select('title').where('userId', '>', 1).orderBy('title'),
+      { num: 1, size: 2, queryTotal: true, schema },
+    )
+    expect(withoutRowIdPage.records).toStrictEqual([{ title: 'p3' }, { title: 'p4' }])
+    expect(withoutRowIdPage.total).toBe(3)
+  })
+
+  it('should paginate by cursor', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    for (let i = 0; i < 10; i++) {
+      await db
+        .insertInto('test')
+        .values({ gender: true, literal: `l${i}` })
+        .execute()
+    }
+    // same `createAt`, ordered by `id`
+    const orderBy = [{ column: 'createAt', direction: 'desc' }, { column: 'id', direction: 'desc' }] as const
+    const qb = db.selectFrom('test').selectAll()
+    const getLiterals = (page: CursorPaginationResult<{ literal: string | null }>): (string | null)[] => (
+      page.convertRecords(r => r.literal).records
+    )
+
+    const page1 = await cursorQuery(qb, { size: 4, orderBy })
+    expect(getLiterals(page1)).toStrictEqual(['l9', 'l8', 'l7', 'l6'])
+    expect(page1.prevCursor).toBeUndefined()
+
+    const page2 = await cursorQuery(qb, { size: 4, orderBy, cursor: page1.nextCursor })
+    expect(getLiterals(page2)).toStrictEqual(['l5', 'l4', 'l3', 'l2'])
+
+    const page3 = await cursorQuery(qb, { size: 4, orderBy, cursor: page2.nextCursor })
+    expect(getLiterals(page3)).toStrictEqual(['l1', 'l0'])
+    expect(page3.nextCursor).toBeUndefined()
+
+    const prevPage = await cursorQuery(qb, { size: 4, orderBy, cursor: page3.prevCursor })
+    expect(getLiterals(prevPage)).toStrictEqual(['l5', 'l4', 'l3', 'l2'])
+    const firstPage = await cursorQuery(qb, { size: 4, orderBy, cursor: prevPage.prevCursor })
+    expect(getLiterals(firstPage)).toStrictEqual(['l9', 'l8', 'l7', 'l6'])
+    expect(firstPage.prevCursor).toBeUndefined()
+    expect(firstPage.nextCursor).toBe(page1.nextCursor)
+
+    await expect(cursorQuery(qb, { size: 4, orderBy, cursor: 'invalid' })).rejects.toThrow('Invalid cursor: invalid')
+  })
+
+  it('should paginate by cursor on date key in without rowid table', async () => {
+    const schema = {
+      event: defineTable({
+        columns: {
+          name: column.string({ notNull: true }),
+          time: column.date({ notNull: true }),
+        },
+        primary: 'name',
+        withoutRowId: true,
+      }),
+    }
+    const db = new SqliteBuilder<InferDatabase<typeof schema>>({ dialect: createDialect() })
+    await db.syncDB(useSchema(schema))
+    await db.insertInto('event').values([
+      { name: 'c', time: new Date('2024-01-01T00:00:00.003Z') },
+      { name: 'a', time: new Date('2024-01-01T00:00:00.001Z') },
+      { name: 'b', time: new Date('2024-01-01T00:00:00.002Z') },
+    ]).execute()
+    const qb = db.selectFrom('event').select(['name', 'time'])
+    const orderBy = [{ column: 'time' }, { column: 'name' }] as const
+
+    const page1 = await cursorQuery(qb, { size: 2, orderBy })
+    expect(page1.records.map(r => r.name)).toStrictEqual(['a', 'b'])
+    const page2 = await cursorQuery(qb, { size: 2, orderBy, cursor: page1.nextCursor })
+    expect(page2.records.map(r => r.name)).toStrictEqual(['c'])
+    const prevPage = await cursorQuery(qb, { size: 2, orderBy, cursor: page2.prevCursor })
+    expect(prevPage.records.map(r => r.name)).toStrictEqual(['a', 'b'])
+  })
 })
@@ -0,0 +1,107 @@
+import type { Schema } from '../src/schema'
+
+import { rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+import { describe, expect, it } from 'bun:test'
+import { sql } from 'kysely'
+
+import {
+  column,
+  DataType,
+  defineTable,
+  generateMigrateDiff,
+  generateMigrateSQL,
+  generateSchemaCode,
+  parseExistSchema,
+  useSchema,
+} from '../src/schema'
+import { baseTables, getDatabaseBuilder } from './utils'
+
+describe('test schema code generator', async () => {
+  const schema = {
+    ...baseTables,
+    order: defineTable({
+      columns: {
+        'id': column.int({ notNull: true }),
+        'testId': column.int({ check: { min: 0 } }),
+        'price': column.float({ defaultTo: 1.5 }),
+        'note-text': column.string({ defaultTo: sql`'it''s'` }),
+        'total': column.generated(sql`"price" * 2`, { type: DataType.float, stored: true }),
+        'createTime': column.date({ defaultTo: sql`CURRENT_TIMESTAMP` }),
+      },
+      primary: ['id', 'testId'],
+      index: [
+        { columns: [{ column: 'note-text', collate: 'NOCASE', order: 'DESC' }], unique: true },
+        { columns: { expression: sql`lower("note-text")` }, name: 'idx_lower_note', where: sql`"price" > 0` },
+      ],
+      foreignKey: [{ columns: 'testId', references: { table: 'test', columns: 'id' }, onDelete: 'CASCADE' }],
+      check: [sql`"price" >= 0`],
+      updateAt: 'updateTime',
+    }),
+  }
+
+  it('should generate code', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(schema))
+    const code = generateSchemaCode(await parseExistSchema(db.kysely), { exportName: 'legacy' })
+    expect(code).toContain('import { sql } from \'kysely\'\n\nimport { column, DataType, defineTable } from \'kysely-sqlite-builder/schema\'')
+    expect(code).toContain('export const legacy = {')
+    expect(code).toContain('      id: column.increments(),')
+    expect(code).toContain('\'note-text\': column.string({ defaultTo: sql`\'it\'\'s\'` }),')
+    expect(code).toContain('\'total\': column.generated(sql`"price" * 2`, { type: DataType.float, stored: true }),')
+    expect(code).toContain('foreignKey: [\n      { columns: \'testId\', references: { table: \'test\', columns: \'id\' }, onDelete: \'CASCADE\' },')
+    expect(code).toContain('index: [[\'id\', \'gender\'], \'person\'],\n    createAt: true,\n    updateAt: true,')
+    expect(code).toContain('index: [\n      { columns: { expression: sql`lower("note-text")` }, name: \'idx_lower_note\', where: sql`"price" > 0` },')
+    expect(code).toContain('createAt: \'createTime\',\n    updateAt: \'updateTime\',')
+  })
+
+  it('should generate code of hand-written table by column affinity', async () => {
+    const db = getDatabaseBuilder()
+    await sql`CREATE TABLE "legacy" ("id" INT PRIMARY KEY, "name" VARCHAR(20) DEFAULT 'a', "time" DATETIME, "flag" BOOLEAN DEFAULT 1, "price" DECIMAL(10, 2), "rate" DOUBLE, "data")`.execute(db.kysely)
+    const code = generateSchemaCode(await parseExistSchema(db.kysely))
+    expect(code).toContain('id: column.int(),')
+    expect(code).toContain('name: column.string({ defaultTo: \'a\' }),')
+    expect(code).toContain('time: column.date(),')
+    expect(code).toContain('flag: column.boolean({ defaultTo: sql`1` }),')
+    expect(code).toContain('price: column.float(),')
+    expect(code).toContain('rate: column.float(),')
+    expect(code).toContain('data: column.blob(),')
+  })
+
+  it('should generate code of table without rowid', async () => {
+    const db = getDatabaseBuilder()
+    await sql`CREATE TABLE "kv" ("key" TEXT NOT NULL PRIMARY KEY, "value" TEXT) WITHOUT ROWID`.execute(db.kysely)
+    const code = generateSchemaCode(await parseExistSchema(db.kysely))
+    expect(code).toContain('primary: \'key\',\n    withoutRowId: true,\n  }),')
+  })
+
+  it('should generate code of hand-written table that has no diff with database', async () => {
+    const db = getDatabaseBuilder()
+    await sql`CREATE TABLE "legacy" ("id" INT PRIMARY KEY, "name" VARCHAR(20) NOT NULL DEFAULT 'a', "time" DATETIME, "flag" BOOLEAN DEFAULT 1, "price" DECIMAL(10, 2))`.execute(db.kysely)
+    await sql`CREATE TABLE "kv" ("key" TEXT NOT NULL PRIMARY KEY, "value" TEXT) WITHOUT ROWID`.execute(db.kysely)
+    const path = join(import.meta.dir, '__generated_legacy_schema__.ts')
+    writeFileSync(path, generateSchemaCode(await parseExistSchema(db.kysely), { importPath: '../src/schema' }))
+    try {
+      const { schema: generated } = await import(path) as { schema: Schema }
+      expect(await generateMigrateDiff(db.kysely, generated)).toStrictEqual([])
+      expect(await generateMigrateSQL(db.kysely, generated)).toStrictEqual([])
+    } finally {
+      rmSync(path, { force: true })
+    }
+  })
+
+  it('should generate code that has no diff with database', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(schema))
+    const path = join(import.meta.dir, '__generated_schema__.ts')
+    writeFileSync(path, generateSchemaCode(await parseExistSchema(db.kysely), { importPath: '../src/schema' }))
+    try {
+      const { schema: generated } = await import(path) as { schema: Schema }
+      expect(Object.keys(generated)).toStrictEqual(['test', 'blob', 'order'])
+      expect(await generateMigrateSQL(db.kysely, generated)).toStrictEqual([])
+    } finally {
+      rmSync(path, { force: true })
+    }
+  })
+})
@@ -0,0 +1,136 @@
+import type { Kysely } from 'kysely'
+
+import { describe, expect, it } from 'bun:test'
+import { Migrator } from 'kysely'
+
+import { createCodeProvider, useMigrator } from '../src/migrator'
+import {
+  column,
+  createMigration,
+  createMigrationCode,
+  defineTable,
+  generateMigrateSQL,
+  generateMigration,
+  parseExistSchema,
+  useSchema,
+} from '../src/schema'
+import { baseTables, getDatabaseBuilder } from './utils'
+
+describe('test schema migration', async () => {
+  const { id, person, gender, birth, literal } = baseTables.test.columns
+  const targetSchema = {
+    test: defineTable({
+      columns: {
+        id,
+        fullName: column.string({ defaultTo: 'test', renamedFrom: 'name' }),
+        person,
+        gender,
+        score: column.int(),
+        birth,
+        literal,
+      },
+      primary: 'id',
+      unique: ['literal'],
+      index: ['person', ['id', 'gender']],
+      createAt: true,
+      updateAt: true,
+    }),
+    newTable: defineTable({ columns: { id: column.increments(), content: column.string() } }),
+  }
+
+  it('should generate migration with up and down', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    await db.insertInto('test').values({ gender: true, name: 'n1', literal: 'l1', score: 1 }).execute()
+    const existSchema = await parseExistSchema(db.kysely)
+
+    const migration = await generateMigration(db.kysely, targetSchema)
+    expect(migration.up).toStrictEqual(await generateMigrateSQL(db.kysely, targetSchema))
+    expect(migration.diff.map(d => d.type)).toStrictEqual(['update', 'drop', 'create'])
+
+    const migrator = new Migrator({
+      db: db.kysely,
+      provider: createCodeProvider({ '2024-01-01': createMigration(migration) }),
+    })
+    expect((await migrator.migrateToLatest()).error).toBeUndefined()
+    expect(await generateMigrateSQL(db.kysely, targetSchema, { excludeTablePrefix: ['kysely_'] })).toStrictEqual([])
+    expect(await (db.kysely as Kysely<any>).selectFrom('test').select(['fullName', 'score']).execute()).toStrictEqual([{ fullName: 'n1', score: 1 }])
+
+    expect((await migrator.migrateDown()).error).toBeUndefined()
+    expect(await parseExistSchema(db.kysely, ['kysely_'])).toStrictEqual(existSchema)
+    expect(await db.selectFrom('test').select(['name', 'score', 'array']).execute()).toStrictEqual([{ name: 'n1', score: 1, array: null }])
+  })
+
+  it('should use previous schema snapshot', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+    const snapshot = await parseExistSchema(db.kysely)
+    const result = await db.syncDB(useMigrator(createCodeProvider([
+      createMigration(await generateMigration(db.kysely, baseTables)),
+      createMigration(await generateMigration(db.kysely, targetSchema, { existSchema: snapshot })),
+    ])))
+    expect(result.ready).toBeTrue()
+    expect(await generateMigrateSQL(db.kysely, targetSchema, { excludeTablePrefix: ['kysely_'] })).toStrictEqual([])
+  })
+
+  it('should revert renamed and without rowid tables', async () => {
+    const db = getDatabaseBuilder<any>()
+    const v1 = {
+      note: defineTable({
+        columns: { id: column.int({ notNull: true }), content: column.string() },
+        primary: 'id',
+        index: ['content'],
+        updateAt: true,
+      }),
+      kv: defineTable({
+        columns: { key: column.string({ notNull: true }), value: column.string() },
+        primary: 'key',
+        withoutRowId: true,
+      }),
+    }
+    const v2 = {
+      memo: defineTable({
+        columns: { id: column.int({ notNull: true }), content: column.string(), extra: column.int() },
+        primary: 'id',
+        index: ['content'],
+        updateAt: true,
+        renamedFrom: 'note',
+      }),
+      kv: defineTable({
+        columns: { key: column.string({ notNull: true }), value: column.string(), extra: column.int() },
+        primary: 'key',
+        withoutRowId: true,
+      }),
+    }
+    await db.syncDB(useSchema(v1))
+    await db.insertInto('note').values({ id: 1, content: 'c1' }).execute()
+    const existSchema = await parseExistSchema(db.kysely)
+    expect(existSchema.kv.withoutRowId).toBeTrue()
+
+    const migrator = new Migrator({
+      db: db.kysely,
+      provider: createCodeProvider({ '2024-01-01': createMigration(await generateMigration(db.kysely, v2)) }),
+    })
+    expect((await migrator.migrateToLatest()).error).toBeUndefined()
+    expect((await migrator.migrateDown()).error).toBeUndefined()
+    expect(await parseExistSchema(db.kysely, ['kysely_'])).toStrictEqual(existSchema)
+    expect(await db.selectFrom('note').select(['id', 'content']).execute()).toStrictEqual([{ id: 1, content: 'c1' }])
+  })
+
+  it('should generate migration code', async () => {
+    const code = createMigrationCode({ up: ['DROP TABLE IF EXISTS "test";'], down: [] })
+    expect(code).toBe([
+      'import type { Kysely } from \'kysely\'',
+      '',
+      'import { sql } from \'kysely\'',
+      '',
+      'export async function up(db: Kysely<any>): Promise<void> {',
+      '  await sql.raw("DROP TABLE IF EXISTS \\"test\\";").execute(db)',
+      '}',
+      '',
+      'export async function down(db: Kysely<any>): Promise<void> {',
+      '}',
+      '',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,288 @@
+import type { Kysely, Migration } from 'kysely'
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { sql } from 'kysely'
+
+import { DriftError, getOrSetDBVersion, listBackups } from '../src'
+import {
+  createCodeProvider,
+  createDirectoryProvider,
+  createModuleProvider,
+  listMigrations,
+  useMigrator,
+  useSyncDB,
+} from '../src/migrator'
+import { column, defineTable, parseExistSchema } from '../src/schema'
+import { getDatabaseBuilder } from './utils'
+
+function createTableMigration(table: string): Migration {
+  return {
+    up: async (db) => {
+      await db.schema.createTable(table).addColumn('id', 'integer').execute()
+    },
+    down: async (db) => {
+      await db.schema.dropTable(table).execute()
+    },
+  }
+}
+
+describe('test migrator', async () => {
+  const provider = createCodeProvider({
+    '2024-01-01': createTableMigration('t1'),
+    '2024-01-02': createTableMigration('t2'),
+    '2024-01-03': createTableMigration('t3'),
+  })
+  let db: ReturnType<typeof getDatabaseBuilder>
+  const getTables = async (): Promise<string[]> => Object.keys(await parseExistSchema(db.kysely, ['kysely_']))
+
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useMigrator(provider))
+  })
+
+  it('should migrate to latest and list migrations', async () => {
+    expect(await getTables()).toStrictEqual(['t1', 't2', 't3'])
+    const list = await listMigrations(db.kysely, provider)
+    expect(list.map(({ name, status }) => [name, status])).toStrictEqual([
+      ['2024-01-01', 'executed'],
+      ['2024-01-02', 'executed'],
+      ['2024-01-03', 'executed'],
+    ])
+    expect(list.every(m => m.executedAt instanceof Date)).toBeTrue()
+  })
+
+  it('should step down and migrate to named migration', async () => {
+    expect((await db.syncDB(useMigrator(provider, { target: { down: 2 } }))).ready).toBeTrue()
+    expect(await getTables()).toStrictEqual(['t1'])
+    const list = await listMigrations(db.kysely, provider)
+    expect(list.map(({ status }) => status)).toStrictEqual(['executed', 'pending', 'pending'])
+    expect(list[1].executedAt).toBeUndefined()
+
+    expect((await db.syncDB(useMigrator(provider, { target: { to: '2024-01-02' } }))).ready).toBeTrue()
+    expect(await getTables()).toStrictEqual(['t1', 't2'])
+  })
+
+  it('should reset', async () => {
+    expect((await db.syncDB(useMigrator(provider, { target: { down: 10 } }))).ready).toBeTrue()
+    expect(await getTables()).toStrictEqual([])
+    await db.syncDB(useMigrator(provider))
+    expect((await db.syncDB(useMigrator(provider, { target: 'reset' }))).ready).toBeTrue()
+    expect(await getTables()).toStrictEqual([])
+  })
+
+  it('should return `ready: false` when migrate to unknown migration', async () => {
+    const result = await db.syncDB(useMigrator(provider, { target: { to: 'unknown' } }))
+    expect(result.ready).toBeFalse()
+  })
+})
+
+describe('test module provider', async () => {
+  const getTables = async (kysely: Kysely<any>): Promise<string[]> => Object.keys(await parseExistSchema(kysely, ['kysely_']))
+
+  it('should load eager and lazy modules', async () => {
+    const db = getDatabaseBuilder()
+    const provider = createModuleProvider({
+      './migrations/00000001_t1.ts': createTableMigration('t1'),
+      './migrations/00000002_t2.ts': async () => ({ default: createTableMigration('t2') }),
+    })
+    expect((await db.syncDB(useMigrator(provider))).ready).toBeTrue()
+    expect(await getTables(db.kysely)).toStrictEqual(['t1', 't2'])
+    expect((await listMigrations(db.kysely, provider)).map(m => m.name)).toStrictEqual(['00000001_t1', '00000002_t2'])
+  })
+
+  it('should validate before running', async () => {
+    const db = getDatabaseBuilder()
+    const provider = createModuleProvider({
+      './migrations/0001_t1.ts': createTableMigration('t1'),
+      './migrations/0001_t2.ts': createTableMigration('t2'),
+      './migrations/0003_t3.ts': createTableMigration('t3'),
+      './migrations/0004_t4.ts': { down: createTableMigration('t4').down },
+      './migrations/init.ts': createTableMigration('init'),
+    }, { idLength: 4 })
+    const result = await db.syncDB(useMigrator(provider))
+    expect(result.ready).toBeFalse()
+    expect((result as { error: Error }).error.message).toBe([
+      'Invalid migrations:',
+      'Duplicate migration id 0001 in "0001_t1" and "0001_t2"',
+      'Invalid migration name "init", should start with 4 digits id',
+      'Missing migration id between "0001_t1" and "0003_t3"',
+      'Missing "up" function in migration "0004_t4"',
+    ].join('\n'))
+    expect(await getTables(db.kysely)).toStrictEqual([])
+  })
+
+  it('should load migrations from directory', async () => {
+    const db = getDatabaseBuilder()
+    const dir = mkdtempSync(join(tmpdir(), 'kysely-sqlite-builder-migrations-'))
+    try {
+      for (const [file, table] of [['00000000_t1.js', 't1'], ['00000001_t2.mjs', 't2']]) {
+        writeFileSync(join(dir, file), `export async function up(db) {\n  await db.schema.createTable('${table}').addColumn('id', 'integer').execute()\n}\n`)
+      }
+      writeFileSync(join(dir, 'README.md'), '')
+      expect((await db.syncDB(useMigrator(createDirectoryProvider(dir)))).ready).toBeTrue()
+      expect(await getTables(db.kysely)).toStrictEqual(['t1', 't2'])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('test sync db', async () => {
+  const v1 = {
+    user: defineTable({
+      columns: {
+        id: column.increments(),
+        name: column.string(),
+      },
+    }),
+  }
+  const v2 = {
+    user: defineTable({
+      columns: {
+        id: column.increments(),
+        name: column.string({ notNull: true }),
+        firstName: column.string(),
+        lastName: column.string(),
+      },
+    }),
+  }
+  const seed = {
+    version: 1,
+    after: async (trx: Kysely<any>) => {
+      await trx.insertInto('user').values([{ name: 'John Doe' }, { name: null }]).execute()
+    },
+  }
+  let db: ReturnType<typeof getDatabaseBuilder>
+
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useSyncDB(v1, { migrations: [seed] }))
+  })
+
+  it('should sync schema and run pending migrations in order', async () => {
+    expect(await getOrSetDBVersion(db.kysely)).toBe(1)
+    const steps: string[] = []
+    const result = await db.syncDB(useSyncDB(v2, {
+      migrations: [
+        {
+          version: 2,
+          after: async (trx) => {
+            steps.push('after 2')
+            await trx.updateTable('user')
+              .set({
+                firstName: sql`substr(name, 1, instr(name, ' ') - 1)`,
+                lastName: sql`substr(name, instr(name, ' ') + 1)`,
+              })
+              .where(sql`instr(name, ' ')`, '>', 0)
+              .execute()
+          },
+        },
+        {
+          ...seed,
+          before: () => {
+            steps.push('before 1')
+          },
+        },
+        {
+          version: 3,
+          // normalize data before `notNull` change, instead of using fallback value
+          before: async (trx) => {
+            steps.push('before 3')
+            await trx.updateTable('user').set({ name: 'unknown' }).where('name', 'is', null).execute()
+          },
+        },
+      ],
+    }))
+    expect(result.ready).toBeTrue()
+    expect(steps).toStrictEqual(['before 3', 'after 2'])
+    expect(await getOrSetDBVersion(db.kysely)).toBe(3)
+    expect(await db.kysely.selectFrom('user').select(['name', 'firstName', 'lastName']).execute()).toStrictEqual([
+      { name: 'John Doe', firstName: 'John', lastName: 'Doe' },
+      { name: 'unknown', firstName: null, lastName: null },
+    ])
+  })
+
+  it('should rollback schema, data and version on error', async () => {
+    const error = new Error('test')
+    const result = await db.syncDB(useSyncDB(v2, {
+      migrations: [
+        {
+          version: 2,
+          before: async (trx) => {
+            await trx.deleteFrom('user').execute()
+          },
+          after: () => {
+            throw error
+          },
+        },
+      ],
+    }))
+    expect(result).toStrictEqual({ ready: false, error })
+    expect(await getOrSetDBVersion(db.kysely)).toBe(1)
+    expect(Object.keys((await parseExistSchema(db.kysely)).user.columns)).toStrictEqual(['id', 'name'])
+    expect(await db.kysely.selectFrom('user').selectAll().execute()).toHaveLength(2)
+  })
+
+  it('should backup and check drift', async () => {
+    const updater = useSyncDB(v2, { backup: {}, checkDrift: 'error' })
+    expect((await db.syncDB(updater)).ready).toBeTrue()
+    expect((await listBackups(db.kysely)).map(info => info.tables)).toStrictEqual([['user']])
+    expect((await db.syncDB(updater)).ready).toBeTrue()
+
+    await sql`CREATE TABLE "drift" ("id" INTEGER)`.execute(db.kysely)
+    const result = await db.syncDB(updater)
+    expect((result as { error: unknown }).error).toBeInstanceOf(DriftError)
+  })
+
+  it('should reject invalid versions', async () => {
+    const result = await db.syncDB(useSyncDB(v2, { migrations: [{ version: 2 }, { version: 2 }] }))
+    expect((result as { error: Error }).error.message).toBe('Duplicate data migration version 2')
+    expect(Object.keys((await parseExistSchema(db.kysely)).user.columns)).toStrictEqual(['id', 'name'])
+  })
+})
+
+describe('test migration drift', async () => {
+  const migrations: Record<string, Migration> = {
+    '2024-01-01': createTableMigration('t1'),
+    '2024-01-02': createTableMigration('t2'),
+  }
+  let db: ReturnType<typeof getDatabaseBuilder>
+
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useMigrator(createCodeProvider(migrations), { checkDrift: 'error' }))
+  })
+
+  it('should report modified migration before migrating', async () => {
+    const modified = createCodeProvider({
+      ...migrations,
+      '2024-01-02': {
+        up: async (db) => {
+          await db.schema.createTable('t2').addColumn('id', 'text').execute()
+        },
+      },
+      '2024-01-03': createTableMigration('t3'),
+    })
+    const result = await db.syncDB(useMigrator(modified, { checkDrift: 'error' }))
+    expect(result.ready).toBeFalse()
+    const error = (result as { error: DriftError }).error
+    expect(error).toBeInstanceOf(DriftError)
+    expect(error.drifts.map(({ type, name }) => [type, name])).toStrictEqual([['migration', '2024-01-02']])
+    expect(error.message).toBe('Drift detected: migration "2024-01-02" is modified')
+    expect((await listMigrations(db.kysely, modified)).map(m => m.status)).toStrictEqual(['executed', 'executed', 'pending'])
+
+    expect((await db.syncDB(useMigrator(modified, { checkDrift: 'warn' }))).ready).toBeTrue()
+    expect((await listMigrations(db.kysely, modified)).map(m => m.status)).toStrictEqual(['executed', 'executed', 'executed'])
+  })
+
+  it('should forget checksums of reverted migrations', async () => {
+    await db.syncDB(useMigrator(createCodeProvider(migrations), { checkDrift: 'error', target: { down: 1 } }))
+    const modified = createCodeProvider({ ...migrations, '2024-01-02': createTableMigration('t3') })
+    expect((await db.syncDB(useMigrator(modified, { checkDrift: 'error' }))).ready).toBeTrue()
+    expect(Object.keys(await parseExistSchema(db.kysely, ['kysely_']))).toStrictEqual(['t1', 't3'])
+  })
+})
@@ -94,4 +94,62 @@ describe('test sync sql', async () => {
       ],
     )
   })
+
+  it('should rename table and column', async () => {
+    await run(
+      {
+        old: defineTable({
+          columns: {
+            id: column.increments(),
+            name: column.string(),
+          },
+          index: ['name'],
+        }),
+      },
+      [
+        'DROP TABLE IF EXISTS "test";',
+        'CREATE TABLE IF NOT EXISTS "old" ("id" INTEGER PRIMARY KEY AUTOINCREMENT,"name" TEXT);',
+        'CREATE INDEX IF NOT EXISTS idx_old_name on "old" ("name");',
+      ],
+    )
+    await executeSQL(db, 'INSERT INTO "old" ("name") VALUES (\'test\')')
+
+    await run(
+      {
+        renamed: defineTable({
+          columns: {
+            id: column.increments(),
+            title: column.string({ renamedFrom: 'name' }),
+          },
+          index: ['title'],
+          renamedFrom: 'old',
+        }),
+      },
+      [
+        'ALTER TABLE "old" RENAME TO "renamed";',
+        'ALTER TABLE "renamed" RENAME COLUMN "name" TO "title";',
+        'DROP INDEX IF EXISTS "idx_old_name";',
+        'CREATE INDEX IF NOT EXISTS "idx_renamed_title" on "renamed"("title");',
+      ],
+    )
+
+    await run(
+      {
+        renamed: defineTable({
+          columns: {
+            id: column.increments(),
+            label: column.string({ renamedFrom: 'title', notNull: true }),
+          },
+        }),
+      },
+      [
+        'CREATE TABLE IF NOT EXISTS "_temp_renamed" ("id" INTEGER PRIMARY KEY AUTOINCREMENT,"label" TEXT NOT NULL);',
+        'INSERT INTO "_temp_renamed" ("id","label") SELECT "id",IFNULL(CAST("title" AS TEXT),\'0\') FROM "renamed";',
+        'DROP TABLE IF EXISTS "renamed";',
+        'ALTER TABLE "_temp_renamed" RENAME TO "renamed";',
+      ],
+    )
+    const { rows } = await executeSQL(db, 'SELECT "label" FROM "renamed"')
+    expect(rows).toStrictEqual([{ label: 'test' }])
+  })
 })
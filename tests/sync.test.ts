@@ -1,14 +1,22 @@
 import type { SqliteBuilder } from '../src'
+import type { InferDatabase, SchemaDiff, SchemaSnapshot, SchemaSyncOptions } from '../src/schema'
 import type { DB } from './utils'
+import type { Kysely } from 'kysely'
 
 import { beforeEach, describe, expect, it } from 'bun:test'
 import { sql } from 'kysely'
 
+import { DriftError, foreignKeys, getOrSetDBVersion } from '../src'
 import {
   column,
+  createSchemaSnapshot,
   DataType,
   defaultFallbackFunction,
   defineTable,
+  DestructiveChangeError,
+  generateMigrateDiff,
+  generateMigrateSQL,
+  getSchemaSnapshot,
   parseExistSchema,
   useSchema,
 } from '../src/schema'
@@ -31,6 +39,22 @@ describe('test user_version', () => {
     const schema = await parseExistSchema(db.kysely)
     expect(schema[tableName]).toBeUndefined()
   })
+
+  it('should not update version when sync fails', async () => {
+    const db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables, { version: { current: 1, skipSyncWhenSame: true } }))
+    const version = { current: 2, skipSyncWhenSame: true }
+    const { blob: _, ...tables } = baseTables
+
+    const blocked = await db.syncDB(useSchema(tables, { version, allowDestructive: false }))
+    expect(blocked.ready).toBeFalse()
+    expect(await getOrSetDBVersion(db.kysely)).toBe(1)
+
+    const result = await db.syncDB(useSchema(tables, { version }))
+    expect(result.ready).toBeTrue()
+    expect(await getOrSetDBVersion(db.kysely)).toBe(2)
+    expect((await parseExistSchema(db.kysely)).blob).toBeUndefined()
+  })
 })
 
 describe('test create table', async () => {
@@ -142,6 +166,21 @@ describe('test update table', async () => {
     expect(tables.test.columns.array).toBeUndefined()
   })
 
+  it('should drop indexed column with its index', async () => {
+    const newColumns = JSON.parse(JSON.stringify(baseTables.test.columns))
+    delete newColumns.person
+    const test = defineTable({
+      ...baseTables.test,
+      columns: newColumns,
+      index: [['id', 'gender']],
+    })
+    const result = await db.syncDB(useSchema({ ...baseTables, test }, { log }))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.test.columns.person).toBeUndefined()
+    expect(tables.test.index).toStrictEqual([['id', 'gender']])
+  })
+
   it('should update and diff same table with different columns type, not null and default value', async () => {
     const prevTables = await parseExistSchema(db.kysely)
     expect(Object.keys(prevTables).length).toBe(2)
@@ -351,3 +390,580 @@ describe('test update table', async () => {
     expect(result.birth).toBeInstanceOf(Date)
   })
 })
+
+describe('test foreign key', async () => {
+  const userTable = defineTable({
+    columns: {
+      id: column.increments(),
+      name: column.string(),
+    },
+  })
+  const postTable = defineTable({
+    columns: {
+      id: column.increments(),
+      userId: column.int({ notNull: true }),
+      title: column.string(),
+    },
+    foreignKey: [{ columns: 'userId', references: { table: 'user', columns: 'id' } }],
+  })
+  const foreignKeySchema = { user: userTable, post: postTable }
+
+  it('should create and parse foreign key', async () => {
+    const db = getDatabaseBuilder()
+    const result = await db.syncDB(useSchema(foreignKeySchema))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.post.foreignKey).toStrictEqual([{
+      columns: ['userId'],
+      table: 'user',
+      references: ['id'],
+      onDelete: 'NO ACTION',
+      onUpdate: 'NO ACTION',
+    }])
+    expect(tables.user.foreignKey).toStrictEqual([])
+  })
+
+  it('should rebuild table when foreign key changed', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof foreignKeySchema>>()
+    await foreignKeys(db.kysely, true)
+    await db.syncDB(useSchema(foreignKeySchema))
+    await db.kysely.insertInto('user').values({ name: 'test' }).execute()
+    await db.kysely.insertInto('post').values({ userId: 1, title: 'post' }).execute()
+
+    const result = await db.syncDB(useSchema({
+      user: userTable,
+      post: defineTable({
+        ...postTable,
+        foreignKey: [{ columns: 'userId', references: { table: 'user', columns: 'id' }, onDelete: 'CASCADE' }],
+      }),
+    }))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.post.foreignKey[0].onDelete).toBe('CASCADE')
+    const posts = await db.kysely.selectFrom('post').selectAll().execute()
+    expect(posts.length).toBe(1)
+
+    expect(await foreignKeys(db.kysely)).toBeTrue()
+
+    await db.kysely.deleteFrom('user').where('id', '=', 1).execute()
+    expect(await db.kysely.selectFrom('post').selectAll().execute()).toStrictEqual([])
+  })
+
+  it('should return `ready: false` when references unknown table or column', async () => {
+    const db = getDatabaseBuilder()
+    // @ts-expect-error referenced table is checked by type
+    const result = await db.syncDB(useSchema({ post: postTable }))
+    expect(result.ready).toBeFalse()
+
+    const result2 = await db.syncDB(useSchema({
+      user: userTable,
+      // @ts-expect-error referenced columns are checked by type
+      post: defineTable({
+        ...postTable,
+        foreignKey: [{ columns: 'userId', references: { table: 'user', columns: 'uid' } }],
+      }),
+    }))
+    expect(result2.ready).toBeFalse()
+  })
+})
+
+describe('test check constraint', async () => {
+  const checkTable = defineTable({
+    columns: {
+      id: column.increments(),
+      level: column.string({ check: { in: ['l1', 'l2'] } }),
+      score: column.int({ check: { min: 0, max: 100 } }),
+      start: column.int(),
+      end: column.int(),
+    },
+    check: [sql`"start" <= "end"`],
+  })
+  const checkSchema = { check: checkTable }
+
+  it('should create and parse check constraint', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof checkSchema>>()
+    await db.syncDB(useSchema(checkSchema))
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.check.check).toStrictEqual([
+      '"level" IN (\'l1\',\'l2\')',
+      '"score" >= 0 AND "score" <= 100',
+      '"start" <= "end"',
+    ])
+    expect(await generateMigrateSQL(db.kysely, checkSchema)).toStrictEqual([])
+
+    await db.insertInto('check').values({ level: 'l1', score: 50, start: 1, end: 2 }).execute()
+    // @ts-expect-error literal type from check
+    expect(db.insertInto('check').values({ level: 'l3' }).execute()).rejects.toThrow()
+    expect(db.insertInto('check').values({ score: 101 }).execute()).rejects.toThrow()
+    expect(db.insertInto('check').values({ start: 3, end: 2 }).execute()).rejects.toThrow()
+  })
+
+  it('should rebuild table when check changed', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof checkSchema>>()
+    await db.syncDB(useSchema(checkSchema))
+    await db.insertInto('check').values({ level: 'l1', score: 50 }).execute()
+
+    const result = await db.syncDB(useSchema({
+      check: defineTable({
+        ...checkTable,
+        columns: {
+          ...checkTable.columns,
+          level: column.string({ check: { in: ['l1', 'l2', 'l3'] } }),
+        },
+        check: [],
+      }),
+    }))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.check.check).toStrictEqual([
+      '"level" IN (\'l1\',\'l2\',\'l3\')',
+      '"score" >= 0 AND "score" <= 100',
+    ])
+    expect(await db.selectFrom('check').select('level').execute()).toStrictEqual([{ level: 'l1' }])
+  })
+})
+
+describe('test index descriptor', async () => {
+  const indexTable = defineTable({
+    columns: {
+      id: column.increments(),
+      name: column.string(),
+      email: column.string(),
+    },
+    index: [
+      'name',
+      { columns: 'email', unique: true, where: sql`"email" IS NOT NULL` },
+      { columns: [{ column: 'name', collate: 'NOCASE', order: 'DESC' }, 'id'], name: 'idx_name_nocase' },
+      { columns: { expression: sql`lower("email")` }, name: 'idx_lower_email' },
+    ],
+  })
+  const indexSchema = { index: indexTable }
+
+  it('should create and parse index descriptor', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof indexSchema>>()
+    await db.syncDB(useSchema(indexSchema))
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.index.indexes).toStrictEqual([
+      { name: 'idx_lower_email', unique: false, columns: ['lower("email")'], where: null },
+      { name: 'idx_name_nocase', unique: false, columns: ['"name" COLLATE NOCASE DESC', '"id"'], where: null },
+      { name: 'idx_index_email', unique: true, columns: ['"email"'], where: '"email" IS NOT NULL' },
+      { name: 'idx_index_name', unique: false, columns: ['"name"'], where: null },
+    ])
+    expect(await generateMigrateSQL(db.kysely, indexSchema)).toStrictEqual([])
+
+    await db.insertInto('index').values([{ name: 'a' }, { name: 'b' }]).execute()
+    await db.insertInto('index').values({ email: 'test' }).execute()
+    expect(db.insertInto('index').values({ email: 'test' }).execute()).rejects.toThrow()
+  })
+
+  it('should recreate changed index', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof indexSchema>>()
+    await db.syncDB(useSchema(indexSchema))
+    const sqls = await generateMigrateSQL(db.kysely, {
+      index: defineTable({
+        ...indexTable,
+        index: [
+          { columns: 'email', unique: true },
+          { columns: { expression: sql`lower("name")` }, name: 'idx_lower_email' },
+        ],
+      }),
+    })
+    expect(sqls).toStrictEqual([
+      'DROP INDEX IF EXISTS "idx_lower_email";',
+      'DROP INDEX IF EXISTS "idx_name_nocase";',
+      'DROP INDEX IF EXISTS "idx_index_email";',
+      'DROP INDEX IF EXISTS "idx_index_name";',
+      'CREATE UNIQUE INDEX IF NOT EXISTS "idx_index_email" on "index" ("email");',
+      'CREATE INDEX IF NOT EXISTS "idx_lower_email" on "index" (lower("name"));',
+    ])
+  })
+
+  it('should return `ready: false` when expression index has no name', async () => {
+    const db = getDatabaseBuilder()
+    const result = await db.syncDB(useSchema({
+      index: defineTable({
+        ...indexTable,
+        index: [{ columns: { expression: sql`lower("name")` } }],
+      }),
+    }))
+    expect(result.ready).toBeFalse()
+  })
+})
+
+describe('test generated column', async () => {
+  const generatedTable = defineTable({
+    columns: {
+      id: column.increments(),
+      price: column.float({ notNull: true }),
+      count: column.int({ notNull: true }),
+      total: column.generated(sql`"price" * "count"`, { type: DataType.float }),
+      label: column.generated(sql`'item-' || "id"`, { stored: true }),
+    },
+  })
+  const generatedSchema = { item: generatedTable }
+
+  it('should create and parse generated column', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof generatedSchema>>()
+    await db.syncDB(useSchema(generatedSchema))
+    const tables = await parseExistSchema(db.kysely)
+    const { total, label } = tables.item.columns
+    expect(total.type).toBe('REAL')
+    expect(total.generated).toStrictEqual({ expression: '"price" * "count"', stored: false })
+    expect(label.type).toBe('TEXT')
+    expect(label.generated).toStrictEqual({ expression: '\'item-\' || "id"', stored: true })
+    expect(await generateMigrateSQL(db.kysely, generatedSchema)).toStrictEqual([])
+
+    await db.insertInto('item').values({ price: 1.5, count: 2 }).execute()
+    // @ts-expect-error generated column is read-only
+    db.insertInto('item').values({ price: 1, count: 1, total: 1 })
+    const result = await db.selectFrom('item').select(['total', 'label']).executeTakeFirstOrThrow()
+    expect(result).toStrictEqual({ total: 3, label: 'item-1' })
+  })
+
+  it('should add virtual column and rebuild table for stored column', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof generatedSchema>>()
+    await db.syncDB(useSchema(generatedSchema))
+    await db.insertInto('item').values({ price: 2, count: 2 }).execute()
+
+    const virtualSchema = {
+      item: defineTable({
+        ...generatedTable,
+        columns: {
+          ...generatedTable.columns,
+          double: column.generated(sql`"count" * 2`, { type: DataType.int }),
+        },
+      }),
+    }
+    expect(await generateMigrateSQL(db.kysely, virtualSchema)).toStrictEqual([
+      'ALTER TABLE "item" ADD COLUMN "double" INTEGER GENERATED ALWAYS AS ("count" * 2) VIRTUAL;',
+    ])
+
+    const result = await db.syncDB(useSchema({
+      item: defineTable({
+        ...generatedTable,
+        columns: {
+          ...generatedTable.columns,
+          total: column.generated(sql`"price" * "count"`, { type: DataType.float, stored: true }),
+        },
+      }),
+    }))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.item.columns.total.generated?.stored).toBeTrue()
+    expect(await db.selectFrom('item').select(['price', 'total']).execute()).toStrictEqual([{ price: 2, total: 4 }])
+  })
+
+  it('should rebuild table when dropped column is used by generated column', async () => {
+    const db = getDatabaseBuilder<InferDatabase<typeof generatedSchema>>()
+    await db.syncDB(useSchema(generatedSchema))
+    await db.insertInto('item').values({ price: 2, count: 3 }).execute()
+
+    const { count: _, total: __, ...columns } = generatedTable.columns
+    const result = await db.syncDB(useSchema({ item: defineTable({ columns }) }))
+    expect(result.ready).toBeTrue()
+    const tables = await parseExistSchema(db.kysely)
+    expect(tables.item.columns.count).toBeUndefined()
+    expect(tables.item.columns.total).toBeUndefined()
+    expect(await db.selectFrom('item').select(['price', 'label']).execute()).toStrictEqual([{ price: 2, label: 'item-1' }])
+  })
+})
+
+describe('test dry run and diff', async () => {
+  let db: SqliteBuilder<DB>
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+  })
+
+  it('should report diff without touching database', async () => {
+    const prevTables = await parseExistSchema(db.kysely)
+    const { id, person, gender, birth, literal } = baseTables.test.columns
+    const schema = {
+      test: defineTable({
+        columns: {
+          id,
+          name: column.string({ defaultTo: 'test', notNull: true }),
+          person,
+          gender,
+          score: column.int(),
+          birth,
+          literal,
+        },
+        primary: 'id',
+        unique: ['literal'],
+        index: ['person', ['id', 'gender']],
+        createAt: true,
+        updateAt: true,
+      }),
+      asd: defineTable({ columns: { asd: column.int() } }),
+    }
+    let diff: SchemaDiff = []
+    const result = await db.syncDB(useSchema(schema, {
+      dryRun: true,
+      version: { current: 2, skipSyncWhenSame: false },
+      onDiff: d => void (diff = d),
+    }))
+    expect(result.ready).toBeTrue()
+    expect(await parseExistSchema(db.kysely)).toStrictEqual(prevTables)
+    expect((await sql`PRAGMA user_version`.execute(db.kysely)).rows).toStrictEqual([{ user_version: 0 }])
+
+    expect(diff.map(({ table, type, rebuild }) => [table, type, rebuild])).toStrictEqual([
+      ['test', 'update', true],
+      ['blob', 'drop', false],
+      ['asd', 'create', false],
+    ])
+    const [test, blob, asd] = diff
+    expect(Object.keys(test.columns.dropped)).toStrictEqual(['array'])
+    expect(test.columns.altered.score).toStrictEqual({
+      before: prevTables.test.columns.score,
+      after: { type: 'INTEGER', notNull: false, defaultTo: null },
+    })
+    expect(test.risks).toStrictEqual([
+      { column: 'name', reason: 'fallback' },
+      { column: 'score', reason: 'cast' },
+      { column: 'array', reason: 'drop-column' },
+    ])
+    expect(diff.flatMap(d => d.sqls)).toStrictEqual(await generateMigrateSQL(db.kysely, schema))
+    expect(blob.risks).toStrictEqual([{ reason: 'drop-table' }])
+    expect(Object.keys(asd.columns.added)).toStrictEqual(['asd'])
+  })
+
+  it('should report index and column changes without rebuild', async () => {
+    const test = defineTable({
+      ...baseTables.test,
+      columns: {
+        ...baseTables.test.columns,
+        newColumn: column.int(),
+      },
+      index: ['person', 'newColumn'],
+    })
+    const diff = await generateMigrateDiff(db.kysely, { ...baseTables, test })
+    expect(diff.length).toBe(1)
+    const { rebuild, columns, index, risks, sqls } = diff[0]
+    expect(rebuild).toBeFalse()
+    expect(columns.added).toStrictEqual({ newColumn: { type: 'INTEGER', notNull: false, defaultTo: null } })
+    expect(index.added.map(idx => idx.name)).toStrictEqual(['idx_test_newColumn'])
+    expect(index.dropped.map(idx => idx.name)).toStrictEqual(['idx_test_id_gender'])
+    expect(risks).toStrictEqual([])
+    expect(sqls).toStrictEqual(await generateMigrateSQL(db.kysely, { ...baseTables, test }))
+  })
+})
+
+describe('test destructive change guard', async () => {
+  let db: SqliteBuilder<DB>
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables))
+  })
+
+  it('should block destructive changes without executing', async () => {
+    const prevTables = await parseExistSchema(db.kysely)
+    const result = await db.syncDB(useSchema({ test: baseTables.test }, { allowDestructive: false }))
+    expect(result.ready).toBeFalse()
+    const error = (result as { error: DestructiveChangeError }).error
+    expect(error).toBeInstanceOf(DestructiveChangeError)
+    expect(error.changes).toStrictEqual([{ table: 'blob', reason: 'drop-table' }])
+    expect(error.message).toBe('Blocked destructive changes: drop-table "blob"')
+    expect(await parseExistSchema(db.kysely)).toStrictEqual(prevTables)
+  })
+
+  it('should allow changes by reason or callback', async () => {
+    const { uint8, ...columns } = baseTables.blob.columns
+    const blob = defineTable({ columns, primary: 'id' })
+
+    const blocked = await db.syncDB(useSchema({ ...baseTables, blob }, { allowDestructive: { 'drop-table': true } }))
+    expect(blocked.ready).toBeFalse()
+
+    const result = await db.syncDB(useSchema({ ...baseTables, blob }, {
+      allowDestructive: ({ table, column }) => table === 'blob' && column === 'uint8',
+    }))
+    expect(result.ready).toBeTrue()
+    expect((await parseExistSchema(db.kysely)).blob.columns.uint8).toBeUndefined()
+  })
+
+  it('should always allow truncate', async () => {
+    const result = await db.syncDB(useSchema(baseTables, { allowDestructive: false, truncateIfExists: true }))
+    expect(result.ready).toBeTrue()
+  })
+})
+
+describe('test schema drift', async () => {
+  let db: SqliteBuilder<DB>
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useSchema(baseTables, { checkDrift: 'error' }))
+  })
+
+  it('should pass when database is only changed by schema sync', async () => {
+    const { uint8, ...columns } = baseTables.blob.columns
+    const blob = defineTable({ columns, primary: 'id' })
+    expect((await db.syncDB(useSchema({ ...baseTables, blob }, { checkDrift: 'error' }))).ready).toBeTrue()
+    expect((await db.syncDB(useSchema(baseTables, { checkDrift: 'error' }))).ready).toBeTrue()
+  })
+
+  it('should report altered database before syncing', async () => {
+    await db.execute('CREATE INDEX "idx_manual" ON "blob" ("buffer")')
+    const result = await db.syncDB(useSchema(baseTables, { checkDrift: 'error' }))
+    expect(result.ready).toBeFalse()
+    const error = (result as { error: DriftError }).error
+    expect(error).toBeInstanceOf(DriftError)
+    expect(error.drifts.map(({ type, name }) => [type, name])).toStrictEqual([['schema', 'schema']])
+    expect(error.message).toBe('Drift detected: schema is altered')
+    // not synced
+    expect((await parseExistSchema(db.kysely)).blob.indexes.map(idx => idx.name)).toStrictEqual(['idx_manual'])
+
+    expect((await db.syncDB(useSchema(baseTables, { checkDrift: 'warn' }))).ready).toBeTrue()
+    expect((await parseExistSchema(db.kysely)).blob.indexes).toStrictEqual([])
+    expect((await db.syncDB(useSchema(baseTables, { checkDrift: 'error' }))).ready).toBeTrue()
+  })
+})
+
+describe('test schema snapshot', async () => {
+  let db: SqliteBuilder<DB>
+  const { literal, ...columns } = baseTables.test.columns
+  const retyped = {
+    ...baseTables,
+    test: defineTable({
+      columns: { ...columns, literal: column.date() },
+      primary: 'id',
+      unique: ['literal'],
+      index: ['person', ['id', 'gender']],
+      createAt: true,
+      updateAt: true,
+    }),
+  }
+
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    let oldSnapshot: SchemaSnapshot | undefined = {}
+    await db.syncDB(useSchema(baseTables, {
+      snapshot: true,
+      onSuccess: (_db, _schema, _version, snapshot) => {
+        oldSnapshot = snapshot
+      },
+    }))
+    expect(oldSnapshot).toBeUndefined()
+  })
+
+  it('should store logical schema', async () => {
+    const snapshot = await getSchemaSnapshot(db.kysely)
+    // `undefined` properties are dropped by JSON
+    expect(snapshot).toEqual(createSchemaSnapshot(db.kysely, baseTables))
+    expect(snapshot!.test.columns.birth).toStrictEqual({ type: DataType.date, notNull: false, defaultTo: null })
+    expect(snapshot!.test).toMatchObject({ primary: ['id'], createAt: 'createAt', updateAt: 'updateAt', withoutRowId: false })
+    expect((await parseExistSchema(db.kysely)).__kysely_schema).toBeUndefined()
+  })
+
+  it('should detect logical type changes with same SQLite type', async () => {
+    let diff: SchemaDiff = []
+    const blocked = await db.syncDB(useSchema(retyped, {
+      snapshot: true,
+      allowDestructive: false,
+      onDiff: d => void (diff = d),
+    }))
+    expect(blocked.ready).toBeFalse()
+    expect(diff.map(({ table, sqls, columns, risks }) => ({ table, sqls, retyped: columns.retyped, risks }))).toStrictEqual([
+      {
+        table: 'test',
+        sqls: [],
+        retyped: { literal: { before: DataType.string, after: DataType.date } },
+        risks: [{ column: 'literal', reason: 'cast' }],
+      },
+    ])
+
+    let oldSnapshot: SchemaSnapshot | undefined
+    const result = await db.syncDB(useSchema(retyped, {
+      snapshot: true,
+      onSuccess: (_db, _schema, _version, snapshot) => {
+        oldSnapshot = snapshot
+      },
+    }))
+    expect(result.ready).toBeTrue()
+    expect(oldSnapshot!.test.columns.literal.type).toBe(DataType.string)
+    expect((await getSchemaSnapshot(db.kysely))!.test.columns.literal.type).toBe(DataType.date)
+    expect(await generateMigrateDiff(db.kysely, retyped, { snapshot: true })).toStrictEqual([])
+  })
+})
+
+describe('test column transform', async () => {
+  const v1 = {
+    user: defineTable({
+      columns: {
+        id: column.increments(),
+        birth: column.int(),
+        tags: column.string(),
+      },
+    }),
+  }
+  const v2 = {
+    user: defineTable({
+      columns: {
+        id: column.increments(),
+        birth: column.date(),
+        tags: column.object().$cast<string[]>(),
+        code: column.string(),
+      },
+    }),
+  }
+  const transform: SchemaSyncOptions<typeof v2>['transform'] = {
+    user: {
+      birth: sql`strftime('%Y-%m-%dT%H:%M:%fZ', "birth", 'unixepoch')`,
+      tags: (value: string | null) => value?.split(',') ?? [],
+      code: sql`'u' || "id"`,
+    },
+  }
+  let db: SqliteBuilder<InferDatabase<typeof v2>>
+
+  beforeEach(async () => {
+    db = getDatabaseBuilder()
+    await db.syncDB(useSchema(v1, { snapshot: true }))
+    await (db.kysely as Kysely<any>).insertInto('user').values([{ birth: 0, tags: 'a,b' }, { birth: null, tags: null }]).execute()
+  })
+
+  it('should transform changed columns', async () => {
+    let diff: SchemaDiff = []
+    const result = await db.syncDB(useSchema(v2, { snapshot: true, transform, onDiff: d => void (diff = d) }))
+    expect(result.ready).toBeTrue()
+    expect(diff[0].transformed).toStrictEqual(['birth', 'tags', 'code'])
+    const expected = [
+      { id: 1, birth: new Date(0), tags: ['a', 'b'], code: 'u1' },
+      { id: 2, birth: null, tags: [], code: 'u2' },
+    ]
+    expect(await db.selectFrom('user').selectAll().execute()).toStrictEqual(expected)
+
+    // unchanged columns are not transformed again
+    diff = []
+    expect((await db.syncDB(useSchema(v2, { snapshot: true, transform, onDiff: d => void (diff = d) }))).ready).toBeTrue()
+    expect(diff).toStrictEqual([])
+    expect(await db.selectFrom('user').selectAll().execute()).toStrictEqual(expected)
+  })
+
+  it('should rollback when transform throws', async () => {
+    const error = new Error('test')
+    const result = await db.syncDB(useSchema(v2, {
+      snapshot: true,
+      transform: {
+        user: {
+          tags: () => {
+            throw error
+          },
+        },
+      },
+    }))
+    expect(result).toStrictEqual({ ready: false, error })
+    expect((await getSchemaSnapshot(db.kysely))!.user.columns.tags.type).toBe(DataType.string)
+    expect(await (db.kysely as Kysely<any>).selectFrom('user').select('tags').execute()).toStrictEqual([{ tags: 'a,b' }, { tags: null }])
+  })
+
+  it('should not fire update time trigger when transforming', async () => {
+    const timedDB = getDatabaseBuilder<any>()
+    await timedDB.syncDB(useSchema({ user: defineTable({ ...v1.user, updateAt: true }) }, { snapshot: true }))
+    await timedDB.insertInto('user').values({ tags: 'a,b', updateAt: new Date(0) }).execute()
+    const { updateAt } = await timedDB.selectFrom('user').select('updateAt').executeTakeFirstOrThrow()
+
+    const result = await timedDB.syncDB(useSchema({ user: defineTable({ ...v2.user, updateAt: true }) }, { snapshot: true, transform }))
+    expect(result.ready).toBeTrue()
+    expect(await timedDB.selectFrom('user').select(['tags', 'updateAt']).execute()).toStrictEqual([{ tags: ['a', 'b'], updateAt }])
+    expect((await parseExistSchema(timedDB.kysely)).user.trigger).toStrictEqual(['tgr_user_updateAt'])
+  })
+})